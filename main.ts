@@ -1,25 +1,63 @@
-import { Plugin, WorkspaceLeaf, ViewState } from 'obsidian';
+import { MarkdownView, Plugin, TFile, WorkspaceLeaf, ViewState } from 'obsidian';
 import { around } from 'monkey-around';
 import { WYSIWYGView, WYSIWYG_VIEW_TYPE } from './src/editor/WYSIWYGView';
+import { DEFAULT_SETTINGS, EditorMode, WYSIWYGSettings, WYSIWYGSettingTab } from './src/settings';
+import { matchesFolderGlob } from './src/utils/glob';
+
+// Frontmatter values that keep a note in the native editor
+const NATIVE_EDITOR_VALUES = ['source', 'native', 'markdown'];
 
 export default class WYSIWYGPlugin extends Plugin {
+  settings!: WYSIWYGSettings;
   private _loaded: boolean = false;
+  // Value of replaceMarkdownViews the open leaves currently reflect
+  private appliedTakeover = true;
 
   async onload() {
     console.log('Loading WYSIWYG Plugin');
 
+    await this.loadSettings();
+    this.appliedTakeover = this.settings.replaceMarkdownViews;
+    this.addSettingTab(new WYSIWYGSettingTab(this.app, this));
+
     // Register the custom view
     this.registerView(
       WYSIWYG_VIEW_TYPE,
       (leaf) => new WYSIWYGView(leaf, this)
     );
 
+    // Let the Page Preview plugin show previews for links in our editor
+    this.registerHoverLinkSource(WYSIWYG_VIEW_TYPE, {
+      display: 'WYSIWYG editor',
+      defaultMod: true,
+    });
+
     // Register keyboard shortcuts as commands
     this.registerCommands();
 
     // Monkey patch WorkspaceLeaf.setViewState to intercept markdown view creation
     this.registerMonkeyPatches();
 
+    // Keep per-note editor choices attached to their notes
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        const mode = this.settings.fileEditorModes[oldPath];
+        if (mode) {
+          delete this.settings.fileEditorModes[oldPath];
+          this.settings.fileEditorModes[file.path] = mode;
+          this.saveData(this.settings);
+        }
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on('delete', (file) => {
+        if (this.settings.fileEditorModes[file.path]) {
+          delete this.settings.fileEditorModes[file.path];
+          this.saveData(this.settings);
+        }
+      })
+    );
+
     this._loaded = true;
   }
 
@@ -75,6 +113,23 @@ export default class WYSIWYGPlugin extends Plugin {
       },
     });
 
+    // Highlight
+    this.addCommand({
+      id: 'toggle-highlight',
+      name: 'Toggle highlight',
+      hotkeys: [{ modifiers: ['Mod', 'Shift'], key: 'h' }],
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(WYSIWYGView);
+        if (view?.editor) {
+          if (!checking) {
+            view.editor.commands.toggleHighlight();
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
     // Toggle task list - [] shortcut
     this.addCommand({
       id: 'toggle-task-list',
@@ -92,6 +147,56 @@ export default class WYSIWYGPlugin extends Plugin {
       },
     });
 
+    // Step the task at the cursor through to do, in progress, done, cancelled, ...
+    // No default hotkey: Mod+L is core's "Toggle checkbox status", the editor's own keymap handles it
+    this.addCommand({
+      id: 'cycle-task-status',
+      name: 'Cycle task status',
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(WYSIWYGView);
+        if (view?.editor?.isActive('taskItem')) {
+          if (!checking) {
+            view.editor.commands.cycleTaskStatus();
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
+    // Move the block at the cursor, with its nested lists, past its neighbours
+    this.addCommand({
+      id: 'move-block-up',
+      name: 'Move block up',
+      hotkeys: [{ modifiers: ['Alt'], key: 'ArrowUp' }],
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(WYSIWYGView);
+        if (view?.editor) {
+          if (!checking) {
+            view.editor.commands.moveBlockUp();
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
+    this.addCommand({
+      id: 'move-block-down',
+      name: 'Move block down',
+      hotkeys: [{ modifiers: ['Alt'], key: 'ArrowDown' }],
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(WYSIWYGView);
+        if (view?.editor) {
+          if (!checking) {
+            view.editor.commands.moveBlockDown();
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
     // Underline
     this.addCommand({
       id: 'toggle-underline',
@@ -109,6 +214,38 @@ export default class WYSIWYGPlugin extends Plugin {
       },
     });
 
+    // Switch the current note to the native editor and remember it
+    this.addCommand({
+      id: 'open-in-native-editor',
+      name: 'Open in native editor',
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(WYSIWYGView);
+        if (view?.file) {
+          if (!checking) {
+            this.openInMarkdownView(view.leaf, view.file);
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
+    // Switch the current note to the WYSIWYG editor and remember it
+    this.addCommand({
+      id: 'open-in-wysiwyg-editor',
+      name: 'Open in WYSIWYG editor',
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (view?.file) {
+          if (!checking) {
+            this.openInWysiwygView(view.leaf, view.file);
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
     // Insert/edit link
     this.addCommand({
       id: 'insert-link',
@@ -118,24 +255,7 @@ export default class WYSIWYGPlugin extends Plugin {
         const view = this.app.workspace.getActiveViewOfType(WYSIWYGView);
         if (view?.editor) {
           if (!checking) {
-            const { from, to } = view.editor.state.selection;
-            const text = view.editor.state.doc.textBetween(from, to);
-
-            // Get existing link if cursor is in one
-            const link = view.editor.getAttributes('link');
-            const currentUrl = link.href || '';
-
-            // Prompt for URL
-            const url = prompt('Enter URL:', currentUrl);
-            if (url !== null) {
-              if (url === '') {
-                // Remove link if URL is empty
-                view.editor.commands.unsetLink();
-              } else {
-                // Set link
-                view.editor.commands.setLink({ href: url });
-              }
-            }
+            view.editLink();
           }
           return true;
         }
@@ -156,7 +276,8 @@ export default class WYSIWYGPlugin extends Plugin {
             if (
               self._loaded &&
               state.type === 'markdown' &&
-              state.state?.file
+              state.state?.file &&
+              self.shouldUseWysiwyg(state.state.file as string)
             ) {
               // Replace the view type with our custom WYSIWYG view
               const newState = {
@@ -176,6 +297,95 @@ export default class WYSIWYGPlugin extends Plugin {
     );
   }
 
+  async loadSettings() {
+    const data = await this.loadData();
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+    // Don't let edits leak into the shared defaults
+    this.settings.fileEditorModes = { ...data?.fileEditorModes };
+  }
+
+  async saveSettings() {
+    const takeoverChanged = this.appliedTakeover !== this.settings.replaceMarkdownViews;
+    await this.saveData(this.settings);
+
+    // Extensions read the settings object directly, views only need a redraw
+    this.app.workspace.getLeavesOfType(WYSIWYG_VIEW_TYPE).forEach(leaf => {
+      if (leaf.view instanceof WYSIWYGView) {
+        leaf.view.onSettingsChanged();
+      }
+    });
+
+    if (takeoverChanged) {
+      await this.applyTakeover();
+    }
+  }
+
+  // Move open notes between the native and WYSIWYG views to match the setting
+  private async applyTakeover() {
+    this.appliedTakeover = this.settings.replaceMarkdownViews;
+
+    if (this.settings.replaceMarkdownViews) {
+      for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+        // Goes through the setViewState patch, which swaps the view type
+        await leaf.setViewState(leaf.getViewState());
+      }
+    } else {
+      for (const leaf of this.app.workspace.getLeavesOfType(WYSIWYG_VIEW_TYPE)) {
+        const state = leaf.getViewState();
+        const file = state.state?.file as string | undefined;
+        if (!file || !this.shouldUseWysiwyg(file)) {
+          await leaf.setViewState({ ...state, type: 'markdown' });
+        }
+      }
+    }
+  }
+
+  // Decide which editor a markdown file opens in. A per-note choice wins,
+  // then the frontmatter key, then the folder exclusions and global toggle.
+  shouldUseWysiwyg(path: string): boolean {
+    const remembered = this.settings.fileEditorModes[path];
+    if (remembered) {
+      return remembered === 'wysiwyg';
+    }
+
+    const key = this.settings.editorFrontmatterKey;
+    if (key) {
+      const value = this.app.metadataCache.getCache(path)?.frontmatter?.[key];
+      if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (NATIVE_EDITOR_VALUES.includes(normalized)) return false;
+        if (normalized === 'wysiwyg') return true;
+      }
+    }
+
+    if (matchesFolderGlob(path, this.settings.excludedFolders)) {
+      return false;
+    }
+
+    return this.settings.replaceMarkdownViews;
+  }
+
+  private async setFileEditorMode(file: TFile, mode: EditorMode) {
+    this.settings.fileEditorModes[file.path] = mode;
+    await this.saveData(this.settings);
+  }
+
+  async openInMarkdownView(leaf: WorkspaceLeaf, file: TFile) {
+    await this.setFileEditorMode(file, 'native');
+    await leaf.setViewState({
+      type: 'markdown',
+      state: { file: file.path },
+    });
+  }
+
+  async openInWysiwygView(leaf: WorkspaceLeaf, file: TFile) {
+    await this.setFileEditorMode(file, 'wysiwyg');
+    await leaf.setViewState({
+      type: WYSIWYG_VIEW_TYPE,
+      state: { file: file.path },
+    });
+  }
+
   onunload() {
     console.log('Unloading WYSIWYG Plugin');
     // The this.register() call ensures the monkey patch is automatically removed
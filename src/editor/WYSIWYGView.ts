@@ -1,29 +1,50 @@
-import { TextFileView, TFile, WorkspaceLeaf } from 'obsidian';
+import { HoverPopover, Notice, TAbstractFile, TextFileView, TFile, WorkspaceLeaf } from 'obsidian';
 import { Editor } from '@tiptap/core';
 import StarterKit from '@tiptap/starter-kit';
+import TableRow from '@tiptap/extension-table-row';
 import Link from '@tiptap/extension-link';
-import Image from '@tiptap/extension-image';
 import Placeholder from '@tiptap/extension-placeholder';
 import Underline from '@tiptap/extension-underline';
 import { Markdown } from 'tiptap-markdown';
 import { WikiLink } from './extensions/WikiLink';
 import { FileMention } from './extensions/FileMention';
+import { Tag } from './extensions/Tag';
+import { Embed } from './extensions/Embed';
+import { CustomImage } from './extensions/CustomImage';
 import { PasteHandler } from './extensions/PasteHandler';
 import { CodeBlockExtension } from './extensions/CodeBlock';
 import { SlashCommands } from './extensions/SlashCommands';
+import { BlockHandles } from './extensions/BlockHandles';
+import { BubbleMenu } from './extensions/BubbleMenu';
 import { CustomStrike } from './extensions/CustomStrike';
+import { CustomText } from './extensions/CustomText';
+import { CustomBold } from './extensions/CustomBold';
+import { CustomItalic } from './extensions/CustomItalic';
+import { CustomHeading } from './extensions/CustomHeading';
+import { CustomHorizontalRule } from './extensions/CustomHorizontalRule';
 import { CustomBulletList } from './extensions/CustomBulletList';
+import { CustomOrderedList } from './extensions/CustomOrderedList';
 import { CustomTaskList } from './extensions/CustomTaskList';
 import { CustomTaskItem } from './extensions/CustomTaskItem';
+import { TaskField } from './extensions/TaskField';
 import { CustomBlockquote } from './extensions/CustomBlockquote';
 import { CustomHardBreak } from './extensions/CustomHardBreak';
+import { Highlight } from './extensions/Highlight';
+import { Comment, CommentBlock } from './extensions/Comment';
+import { Callout } from './extensions/Callout';
+import { DollarEscape, MathBlock, MathInline } from './extensions/Math';
+import { FootnoteDefinition, FootnoteReference, Footnotes } from './extensions/Footnote';
+import { CustomTable, CustomTableCell, CustomTableHeader } from './extensions/CustomTable';
 import { PropertiesPanel } from './ui/PropertiesPanel';
+import { FidelityModal } from './ui/FidelityModal';
+import { LinkPopover } from './ui/LinkPopover';
+import { ConflictModal } from './ui/ConflictModal';
+import { hasConflicts, resolveMerge, threeWayMerge } from './utils/merge';
+import { NoteParts, joinNote, parseFrontmatter, splitNote } from './utils/frontmatter';
+import { createNoteForLink } from './utils/notes';
 import type WYSIWYGPlugin from '../../main';
 import * as Diff from 'diff';
 
-// gray-matter needs to be required for CommonJS compatibility
-const matter = require('gray-matter');
-
 export const WYSIWYG_VIEW_TYPE = 'wysiwyg-view';
 
 export class WYSIWYGView extends TextFileView {
@@ -31,11 +52,30 @@ export class WYSIWYGView extends TextFileView {
   plugin: WYSIWYGPlugin;
   editorContainer!: HTMLElement;
   propertiesPanel: PropertiesPanel | null = null;
+  // Set by the Page Preview plugin while one of our links shows a popover
+  hoverPopover: HoverPopover | null = null;
   frontMatter: Record<string, any> = {};
+  // Frontmatter text as loaded, so untouched keys are written back unchanged
+  private noteParts: NoteParts = splitNote('');
   private saveTimeout: NodeJS.Timeout | null = null;
-  private saveDebounceMs: number = 2000;
   private loadedContent: string = '';
   private hasUserEdited: boolean = false;
+  // Blank lines around the loaded body, which the serializer always drops
+  private leadingNewlines = '';
+  private trailingNewlines = '';
+  // Set when the loaded note doesn't survive a parse/serialize round trip
+  private fidelityDiff: Diff.Change[] | null = null;
+  private lossyChangesAccepted = false;
+  private fidelityPrompted = false;
+  private fidelityBanner: HTMLElement | null = null;
+  // Last version of the file we read from or wrote to disk, the base for merges
+  private lastDiskContent: string | null = null;
+  // Edits that haven't been written to disk yet
+  private isDirty = false;
+  private conflictOpen = false;
+  // Subpath from a link that opened this note before its content was loaded
+  private pendingSubpath: string | null = null;
+  private linkPopover: LinkPopover | null = null;
 
   constructor(leaf: WorkspaceLeaf, plugin: WYSIWYGPlugin) {
     super(leaf);
@@ -55,13 +95,19 @@ export class WYSIWYGView extends TextFileView {
     container.empty();
     container.addClass('wysiwyg-container');
 
+    // Warning shown while the note can't be saved without changing its markdown
+    this.fidelityBanner = container.createDiv('fidelity-banner');
+    this.fidelityBanner.hide();
+
     // Create properties panel
     const propertiesContainer = container.createDiv('properties-container');
     this.propertiesPanel = new PropertiesPanel(
+      this.app,
       propertiesContainer,
       this.frontMatter,
       (newMatter) => {
         this.frontMatter = newMatter;
+        this.isDirty = true;
         this.requestSave();
       }
     );
@@ -78,6 +124,17 @@ export class WYSIWYGView extends TextFileView {
 
     // Handle link and mention clicks
     this.editorContainer.addEventListener('click', this.handleLinkClick.bind(this));
+    this.editorContainer.addEventListener('mouseover', this.handleLinkHover.bind(this));
+
+    // Pick up changes made outside this view (Sync, git, other apps)
+    this.registerEvent(
+      this.app.vault.on('modify', (file) => this.handleExternalModify(file))
+    );
+
+    // Keep links in the open document pointing at renamed files
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => this.handleRename(file, oldPath))
+    );
   }
 
   private createEditor(content: string = ''): Editor {
@@ -91,39 +148,80 @@ export class WYSIWYGView extends TextFileView {
           bulletList: false,
           blockquote: false,
           hardBreak: false,
-          bold: {},
-          italic: {},
+          bold: false,
+          italic: false,
+          heading: false,
+          horizontalRule: false,
+          orderedList: false,
+          text: false,
         }),
+        CustomText,
+        CustomBold,
+        CustomItalic,
         CustomStrike,
+        Highlight,
         Underline,
         CustomHardBreak,
         CustomBlockquote,
-        CustomTaskList,
+        CustomHeading,
+        CustomHorizontalRule,
+        Callout,
+        CustomTaskList.configure({
+          settings: this.plugin.settings,
+        }),
         CustomTaskItem.configure({
           nested: true,
         }),
-        CustomBulletList,
+        TaskField,
+        CustomBulletList.configure({
+          settings: this.plugin.settings,
+        }),
+        CustomOrderedList,
+        CustomTable.configure({
+          resizable: false,
+        }),
+        TableRow,
+        CustomTableHeader,
+        CustomTableCell,
+        Embed.configure({
+          view: this,
+        }),
         // WikiLink BEFORE Link to ensure wikilinks are parsed first
         WikiLink.configure({
           vault: this.app.vault,
           workspace: this.app.workspace,
+          metadataCache: this.app.metadataCache,
+          view: this,
         }),
         FileMention.configure({
           vault: this.app.vault,
           workspace: this.app.workspace,
         }),
+        Tag.configure({
+          metadataCache: this.app.metadataCache,
+        }),
+        MathInline,
+        MathBlock,
+        DollarEscape,
+        FootnoteReference,
+        FootnoteDefinition,
+        Footnotes,
+        Comment,
+        CommentBlock,
         Link.configure({
           openOnClick: false,
           HTMLAttributes: {
             class: 'internal-link',
           },
         }),
-        Image.configure({
+        CustomImage.configure({
           inline: true,
           allowBase64: true,
+          view: this,
         }),
         Placeholder.configure({
-          placeholder: "Type '/' for commands or start writing...",
+          // Read on every render so settings changes show up immediately
+          placeholder: () => this.plugin.settings.placeholder,
         }),
         Markdown.configure({
           html: true,
@@ -131,8 +229,16 @@ export class WYSIWYGView extends TextFileView {
           transformCopiedText: true,
           breaks: true,
         }),
-        CodeBlockExtension,
+        CodeBlockExtension.configure({
+          view: this,
+        }),
         SlashCommands,
+        BubbleMenu.configure({
+          view: this,
+        }),
+        BlockHandles.configure({
+          view: this,
+        }),
         PasteHandler.configure({
           vault: this.app.vault,
           view: this,
@@ -144,63 +250,111 @@ export class WYSIWYGView extends TextFileView {
           spellcheck: 'true',
         },
       },
-      onUpdate: ({ editor }) => {
-        if (!this.hasUserEdited && this.loadedContent) {
-          const currentContent = editor.storage.markdown?.getMarkdown?.() || '';
-          if (currentContent !== this.loadedContent) {
-            console.warn(`⚠️ Serialization issues:`);
-
-            const diff = Diff.diffLines(this.loadedContent, currentContent);
-            let oldLine = 1;
-            let newLine = 1;
-
-            diff.forEach(part => {
-              const lines = part.value.split('\n');
-              // Remove last empty line from split (if value ends with \n)
-              if (lines[lines.length - 1] === '') {
-                lines.pop();
-              }
-
-              if (part.removed) {
-                lines.forEach(line => {
-                  console.log(`${oldLine} %c- ${line}`, 'color: #f87171');
-                  oldLine++;
-                });
-              } else if (part.added) {
-                lines.forEach(line => {
-                  console.log(`${newLine} %c+ ${line}`, 'color: #4ade80');
-                  newLine++;
-                });
-              } else {
-                oldLine += lines.length;
-                newLine += lines.length;
-              }
-            });
-          }
-        }
+      onUpdate: () => {
         this.hasUserEdited = true;
+        this.isDirty = true;
         this.debouncedSave();
       },
       content,
     });
   }
 
+  // Add or edit the link at the selection, from Mod+K and the selection toolbar
+  editLink() {
+    if (!this.editor) return;
+    this.linkPopover?.close();
+    this.linkPopover = new LinkPopover(this, this.editor, () => {
+      this.linkPopover = null;
+    });
+  }
+
+  // Page preview for links. Whether Ctrl/Cmd has to be held is decided by the
+  // Page Preview plugin from its setting for our hover source.
+  handleLinkHover(event: MouseEvent) {
+    const target = event.target as HTMLElement;
+    const linkEl = target.closest('[data-wikilink], [data-mention], a.internal-link') as HTMLElement | null;
+    if (!linkEl || !this.editorContainer.contains(linkEl)) return;
+
+    let linktext: string | null;
+    if (linkEl.hasAttribute('data-wikilink')) {
+      // [[#Heading]] has an empty path and previews this note
+      linktext = linkEl.getAttribute('data-wikilink');
+    } else if (linkEl.hasAttribute('data-mention')) {
+      linktext = linkEl.getAttribute('data-mention');
+    } else {
+      // Links rendered by Obsidian inside embeds carry data-href
+      linktext = linkEl.getAttribute('data-href') || linkEl.textContent;
+    }
+
+    if (linktext) {
+      this.triggerHoverLink(event, linkEl, linktext);
+    }
+  }
+
+  private triggerHoverLink(event: MouseEvent, targetEl: HTMLElement, linktext: string) {
+    this.app.workspace.trigger('hover-link', {
+      event,
+      source: WYSIWYG_VIEW_TYPE,
+      hoverParent: this,
+      targetEl,
+      linktext,
+      sourcePath: this.file?.path || '',
+    });
+  }
+
   handleLinkClick(event: MouseEvent) {
     const target = event.target as HTMLElement;
     console.log('Click event on:', target, 'tagName:', target.tagName, 'dataset:', target.dataset);
 
+    // Handle clicks in embedded notes: links inside open their target,
+    // anywhere else opens the embedded note
+    const embedEl = target.closest('.wysiwyg-embed') as HTMLElement;
+    if (embedEl) {
+      event.preventDefault();
+      const embedPath = embedEl.getAttribute('data-path') || '';
+      const embedSubpath = embedEl.getAttribute('data-subpath') || '';
+      const innerLink = target.closest('a.internal-link') as HTMLElement;
+      console.log('Embed click, path:', embedPath, 'subpath:', embedSubpath);
+
+      const embedFile = embedPath
+        ? this.app.metadataCache.getFirstLinkpathDest(embedPath, this.file?.path || '')
+        : this.file;
+
+      if (innerLink && embedEl.contains(innerLink)) {
+        const linktext = innerLink.getAttribute('data-href') || innerLink.getAttribute('href') || '';
+        this.app.workspace.openLinkText(linktext, embedFile?.path || this.file?.path || '', event.metaKey || event.ctrlKey);
+      } else if (embedFile) {
+        this.openFile(embedFile, event.metaKey || event.ctrlKey, event.shiftKey ? event : null, embedSubpath);
+      }
+      return;
+    }
+
     // Handle wikilink clicks
     const wikilinkEl = target.closest('[data-wikilink]') as HTMLElement;
     if (wikilinkEl) {
       event.preventDefault();
-      const filePath = wikilinkEl.getAttribute('data-wikilink');
-      console.log('Wikilink click, path:', filePath);
+      const filePath = wikilinkEl.getAttribute('data-path') || '';
+      const subpath = wikilinkEl.getAttribute('data-subpath') || '';
+      console.log('Wikilink click, path:', filePath, 'subpath:', subpath);
+
+      // [[#Heading]] points into this note
+      if (!filePath) {
+        if (subpath) {
+          this.scrollToSubpath(subpath);
+        }
+        return;
+      }
 
-      if (filePath) {
-        const file = this.app.metadataCache.getFirstLinkpathDest(filePath, this.file?.path || '');
-        if (file) {
-          this.openFile(file, event.metaKey || event.ctrlKey, event.shiftKey);
+      const file = this.app.metadataCache.getFirstLinkpathDest(filePath, this.file?.path || '');
+      if (file) {
+        if (file === this.file && subpath && !(event.metaKey || event.ctrlKey || event.shiftKey)) {
+          this.scrollToSubpath(subpath);
+        } else {
+          this.openFile(file, event.metaKey || event.ctrlKey, event.shiftKey ? event : null, subpath);
         }
+      } else if (!event.shiftKey) {
+        // Unresolved link, create the note and open it like the native editor
+        this.createAndOpenNote(filePath, event.metaKey || event.ctrlKey);
       }
       return;
     }
@@ -215,12 +369,25 @@ export class WYSIWYGView extends TextFileView {
       if (filePath) {
         const file = this.app.metadataCache.getFirstLinkpathDest(filePath, this.file?.path || '');
         if (file) {
-          this.openFile(file, event.metaKey || event.ctrlKey, event.shiftKey);
+          this.openFile(file, event.metaKey || event.ctrlKey, event.shiftKey ? event : null);
         }
       }
       return;
     }
 
+    // Handle tag clicks
+    const tagEl = target.closest('[data-tag]') as HTMLElement;
+    if (tagEl) {
+      event.preventDefault();
+      const tag = tagEl.getAttribute('data-tag');
+      console.log('Tag click:', tag);
+
+      if (tag) {
+        this.searchTag(tag);
+      }
+      return;
+    }
+
     // Handle standard link clicks (for the Link extension)
     const linkEl = target.closest('a');
     if (linkEl) {
@@ -250,46 +417,126 @@ export class WYSIWYGView extends TextFileView {
         console.log('Resolved file:', file);
 
         if (file) {
-          this.openFile(file, event.metaKey || event.ctrlKey, event.shiftKey);
+          this.openFile(file, event.metaKey || event.ctrlKey, event.shiftKey ? event : null);
         }
       }
     }
   }
 
-  private openFile(file: TFile, newTab: boolean, popup: boolean = false) {
-    if (popup) {
-      this.app.workspace.trigger('hover-link', {
-        event: null,
-        source: WYSIWYG_VIEW_TYPE,
-        hoverParent: this,
-        targetEl: this.editorContainer,
-        linktext: file.path,
-      });
+  private async createAndOpenNote(linkpath: string, newTab: boolean) {
+    const file = await createNoteForLink(this.app, linkpath, this.file?.path || '');
+    console.log('createAndOpenNote: created', file?.path);
+    if (file) {
+      this.openFile(file, newTab);
+    }
+  }
+
+  // Open the search pane with the tag, like clicking a tag in reading view
+  private searchTag(tag: string) {
+    const search = (this.app as any).internalPlugins?.getPluginById('global-search');
+    if (search?.enabled) {
+      search.instance.openGlobalSearch(`tag:#${tag}`);
+    } else {
+      new Notice('Enable the core Search plugin to search for tags');
+    }
+  }
+
+  // Shift-click shows the page preview for `popupEvent` instead of opening the file
+  private openFile(file: TFile, newTab: boolean, popupEvent: MouseEvent | null = null, subpath = '') {
+    // The subpath is passed on as ephemeral state, which scrolls the opened view
+    const openState = subpath ? { eState: { subpath } } : undefined;
+
+    if (popupEvent) {
+      const targetEl = (popupEvent.target as HTMLElement).closest('a, [data-mention], .wysiwyg-embed') as HTMLElement;
+      this.triggerHoverLink(popupEvent, targetEl || this.editorContainer, file.path + subpath);
     } else if (newTab) {
       const leaf = this.app.workspace.getLeaf('tab');
-      leaf.openFile(file);
+      leaf.openFile(file, openState);
     } else {
       const leaf = this.app.workspace.getLeaf(false);
-      leaf.openFile(file);
+      leaf.openFile(file, openState);
+    }
+  }
+
+  setEphemeralState(state: any): void {
+    super.setEphemeralState(state);
+
+    // If the note isn't loaded yet, scroll once it is
+    if (state?.subpath && !this.scrollToSubpath(state.subpath)) {
+      this.pendingSubpath = state.subpath;
     }
   }
 
+  // Select and scroll to `#Heading`, `#Parent#Child` or `#^blockid`
+  scrollToSubpath(subpath: string): boolean {
+    if (!this.editor) return false;
+
+    const pos = this.findSubpathPos(subpath);
+    if (pos === null) {
+      console.log('scrollToSubpath: target not found', subpath);
+      return false;
+    }
+
+    this.editor.chain().focus().setTextSelection(pos).run();
+    const dom = this.editor.view.nodeDOM(pos - 1);
+    if (dom instanceof HTMLElement) {
+      dom.scrollIntoView({ block: 'start' });
+    } else {
+      this.editor.commands.scrollIntoView();
+    }
+    return true;
+  }
+
+  // Position inside the heading or block a subpath points to
+  private findSubpathPos(subpath: string): number | null {
+    if (!this.editor) return null;
+
+    const normalize = (text: string) => text
+      .replace(/[#|^[\]]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase();
+
+    const parts = subpath.split('#').filter(Boolean);
+    const last = parts[parts.length - 1];
+    if (!last) return null;
+
+    let found: number | null = null;
+    if (last.startsWith('^')) {
+      const blockPattern = new RegExp(`(^|\\s)\\^${last.slice(1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`);
+      this.editor.state.doc.descendants((node, pos) => {
+        if (found !== null) return false;
+        if (node.isTextblock && blockPattern.test(node.textContent)) {
+          found = pos + 1;
+        }
+        return true;
+      });
+    } else {
+      // Match the last heading of `#Parent#Child`
+      const target = normalize(last);
+      this.editor.state.doc.descendants((node, pos) => {
+        if (found !== null) return false;
+        if (node.type.name === 'heading' && normalize(node.textContent) === target) {
+          found = pos + 1;
+        }
+        return true;
+      });
+    }
+
+    return found;
+  }
+
   async onLoadFile(file: TFile): Promise<void> {
     const content = await this.app.vault.read(file);
     console.log('onLoadFile: read file, length =', content.length);
+    this.lastDiskContent = content;
+    this.isDirty = false;
 
-    // Parse front matter
-    const { data, content: markdownContent } = matter(content);
-    this.frontMatter = data;
-    console.log('onLoadFile: parsed frontmatter, keys =', Object.keys(data));
+    // Parse front matter and update properties panel
+    const markdownContent = this.loadNoteParts(content);
     console.log('onLoadFile: markdown content length =', markdownContent.length);
     console.log('onLoadFile: markdown preview =', markdownContent.substring(0, 200));
 
-    // Update properties panel
-    if (this.propertiesPanel) {
-      this.propertiesPanel.update(this.frontMatter);
-    }
-
     // Store loaded content for comparison and reset edit flag
     this.loadedContent = markdownContent;
     this.hasUserEdited = false;
@@ -302,38 +549,96 @@ export class WYSIWYGView extends TextFileView {
     this.editor = this.createEditor(markdownContent);
     console.log('onLoadFile: editor recreated with new content');
 
-    setTimeout(() => {
-      const serialized = this.editor?.storage.markdown?.getMarkdown?.() || '';
-      if (serialized !== markdownContent) {
-        console.warn(`⚠️ Serialization issues on load:`);
+    this.checkFidelity();
 
-        const diff = Diff.diffLines(markdownContent, serialized);
-        let oldLine = 1;
-        let newLine = 1;
+    if (this.pendingSubpath) {
+      const subpath = this.pendingSubpath;
+      this.pendingSubpath = null;
+      this.scrollToSubpath(subpath);
+    }
+  }
 
-        diff.forEach(part => {
-          const lines = part.value.split('\n');
-          if (lines[lines.length - 1] === '') {
-            lines.pop();
-          }
+  onSettingsChanged() {
+    if (!this.editor) return;
 
-          if (part.removed) {
-            lines.forEach(line => {
-              console.log(`${oldLine} %c- ${line}`, 'color: #f87171');
-              oldLine++;
-            });
-          } else if (part.added) {
-            lines.forEach(line => {
-              console.log(`${newLine} %c+ ${line}`, 'color: #4ade80');
-              newLine++;
-            });
-          } else {
-            oldLine += lines.length;
-            newLine += lines.length;
-          }
-        });
-      }
-    }, 100);
+    // An empty transaction redraws decorations such as the placeholder
+    this.editor.view.dispatch(this.editor.state.tr);
+  }
+
+  // Compare the loaded markdown with what the editor would write back
+  private checkFidelity() {
+    this.fidelityDiff = null;
+    this.lossyChangesAccepted = false;
+    this.fidelityPrompted = false;
+
+    const serialized = this.getMarkdown();
+    if (serialized !== null && serialized !== this.loadedContent) {
+      this.fidelityDiff = Diff.diffLines(this.loadedContent, serialized);
+      const changed = this.fidelityDiff.filter(part => part.added || part.removed).length;
+      console.warn(`⚠️ Serialization issues on load: ${changed} changed hunks, saving is paused`);
+    }
+
+    this.renderFidelityBanner();
+  }
+
+  private canSave(): boolean {
+    return !this.fidelityDiff || this.lossyChangesAccepted;
+  }
+
+  private renderFidelityBanner() {
+    if (!this.fidelityBanner) return;
+
+    this.fidelityBanner.empty();
+    if (this.canSave()) {
+      this.fidelityBanner.hide();
+      return;
+    }
+
+    this.fidelityBanner.show();
+    this.fidelityBanner.createSpan({
+      cls: 'fidelity-banner-text',
+      text: "This note won't round-trip through the WYSIWYG editor. Changes aren't saved until you decide how to continue.",
+    });
+
+    const reviewBtn = this.fidelityBanner.createEl('button', { text: 'Review changes' });
+    reviewBtn.addEventListener('click', () => this.showFidelityModal());
+
+    const nativeBtn = this.fidelityBanner.createEl('button', { text: 'Open in markdown view' });
+    nativeBtn.addEventListener('click', () => this.openInMarkdownView());
+  }
+
+  private showFidelityModal() {
+    if (!this.file || !this.fidelityDiff) return;
+
+    this.fidelityPrompted = true;
+    new FidelityModal(this.app, {
+      fileName: this.file.basename,
+      diff: this.fidelityDiff,
+      onOpenNative: () => this.openInMarkdownView(),
+      onAccept: () => {
+        this.lossyChangesAccepted = true;
+        this.renderFidelityBanner();
+        if (this.hasUserEdited) {
+          this.saveToFile();
+        }
+      },
+    }).open();
+  }
+
+  private openInMarkdownView() {
+    if (!this.file) return;
+    this.plugin.openInMarkdownView(this.leaf, this.file);
+  }
+
+  // Markdown body as it would be written to disk, or null if the serializer isn't available
+  private getMarkdown(): string | null {
+    const markdownStorage = this.editor?.storage.markdown;
+    if (!markdownStorage || typeof markdownStorage.getMarkdown !== 'function') {
+      return null;
+    }
+
+    const markdown: string = markdownStorage.getMarkdown();
+    return markdown ? this.leadingNewlines + markdown + this.trailingNewlines : this.trailingNewlines;
   }
 
   async onUnloadFile(file: TFile): Promise<void> {
@@ -349,12 +654,11 @@ export class WYSIWYGView extends TextFileView {
     }
 
     // Get markdown from editor using the storage API
-    let markdown = '';
+    let markdown: string | null = '';
     try {
       // Access the markdown serializer through storage
-      const markdownStorage = this.editor.storage.markdown;
-      if (markdownStorage && typeof markdownStorage.getMarkdown === 'function') {
-        markdown = markdownStorage.getMarkdown();
+      markdown = this.getMarkdown();
+      if (markdown !== null) {
         console.log('getViewData: got markdown, length =', markdown.length, ', preview =', markdown.substring(0, 100));
       } else {
         console.error('getViewData: markdown storage not found or getMarkdown not available');
@@ -367,13 +671,7 @@ export class WYSIWYGView extends TextFileView {
     }
 
     // Combine front matter with content
-    if (Object.keys(this.frontMatter).length > 0) {
-      const result = matter.stringify(markdown, this.frontMatter);
-      console.log('getViewData: with frontmatter, total length', result.length);
-      return result;
-    }
-
-    return markdown;
+    return joinNote(this.noteParts, this.frontMatter, markdown);
   }
 
   setViewData(data: string, clear: boolean): void {
@@ -385,23 +683,174 @@ export class WYSIWYGView extends TextFileView {
     console.log('setViewData: called with clear =', clear, ', data length =', data.length);
 
     if (clear) {
-      const { data: frontMatterData, content } = matter(data);
-      this.frontMatter = frontMatterData;
-      console.log('setViewData: parsed frontmatter, keys =', Object.keys(frontMatterData));
-      console.log('setViewData: content length =', content.length);
+      const content = this.setEditorContent(data);
+      console.log('setViewData: content set');
 
-      if (this.propertiesPanel) {
-        this.propertiesPanel.update(this.frontMatter);
-      }
+      this.loadedContent = content;
+      this.hasUserEdited = false;
+      this.checkFidelity();
+    }
+  }
+
+  // Replace the editor and properties with `data`, keeping the cursor where it was
+  private setEditorContent(data: string): string {
+    const content = this.loadNoteParts(data);
+    console.log('setEditorContent: content length =', content.length);
+
+    if (this.editor) {
+      const { from } = this.editor.state.selection;
       this.editor.commands.setContent(content, false);
-      console.log('setViewData: content set');
+      this.editor.commands.setTextSelection(Math.min(from, this.editor.state.doc.content.size));
+    }
+
+    return content;
+  }
+
+  // Split off the frontmatter and reset the properties panel, returns the body
+  private loadNoteParts(content: string): string {
+    this.noteParts = splitNote(content);
+    // The panel edits its object in place, keep the parsed original separate
+    this.frontMatter = parseFrontmatter(this.noteParts.yaml) ?? {};
+    console.log('loadNoteParts: parsed frontmatter, keys =', Object.keys(this.frontMatter));
+
+    if (this.propertiesPanel) {
+      this.propertiesPanel.update(this.frontMatter, this.noteParts.invalidYaml);
     }
+
+    const body = this.noteParts.body;
+    this.leadingNewlines = body.match(/^\n*/)?.[0] || '';
+    this.trailingNewlines = body.match(/\n*$/)?.[0] || '';
+    return body;
+  }
+
+  // Obsidian rewrites links on disk when a file is renamed. Do the same in the
+  // open document so the next save doesn't write the old links back.
+  private handleRename(file: TAbstractFile, oldPath: string) {
+    if (!this.editor || !(file instanceof TFile)) return;
+
+    // "Automatically update internal links" is off, Obsidian leaves links alone too
+    if (this.app.vault.getConfig('alwaysUpdateLinks') === false) return;
+
+    const sourcePath = this.file?.path || '';
+    const oldName = oldPath.split('/').pop() || '';
+    const oldBasename = oldName.replace(/\.md$/, '');
+    const pointsToOldPath = (linkpath: string) =>
+      linkpath === oldPath ||
+      linkpath === oldPath.replace(/\.md$/, '') ||
+      ((linkpath === oldBasename || linkpath === oldName) &&
+        !this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath));
+
+    const linktext = this.app.metadataCache.fileToLinktext(file, sourcePath, true);
+    const { tr } = this.editor.state;
+
+    this.editor.state.doc.descendants((node, pos) => {
+      const { attrs } = node;
+      switch (node.type.name) {
+        case 'wikilink':
+        case 'embed':
+          if (attrs.path && pointsToOldPath(attrs.path)) {
+            tr.setNodeMarkup(pos, undefined, { ...attrs, path: linktext });
+          }
+          break;
+        case 'image':
+          if (attrs.embed && attrs.src && pointsToOldPath(attrs.src)) {
+            tr.setNodeMarkup(pos, undefined, { ...attrs, src: linktext });
+          }
+          break;
+        case 'mention':
+          if (attrs.id && pointsToOldPath(attrs.id)) {
+            tr.setNodeMarkup(pos, undefined, {
+              ...attrs,
+              id: file.path,
+              label: attrs.label === oldBasename ? file.basename : attrs.label,
+            });
+          }
+          break;
+      }
+    });
+
+    if (tr.docChanged) {
+      console.log('handleRename: updated links from', oldPath, 'to', file.path);
+      tr.setMeta('addToHistory', false);
+      this.editor.view.dispatch(tr);
+    }
+  }
+
+  private async handleExternalModify(file: TAbstractFile) {
+    if (file !== this.file || !(file instanceof TFile)) return;
+
+    const diskContent = await this.app.vault.read(file);
+    if (diskContent === this.lastDiskContent) {
+      // Our own write, or a touch that didn't change anything
+      return;
+    }
+
+    console.log('handleExternalModify: file changed on disk');
+    await this.handleExternalChange(diskContent);
+  }
+
+  private async handleExternalChange(diskContent: string) {
+    if (this.conflictOpen || !this.file) return;
+
+    // Don't let a pending save overwrite the new version while we merge
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+
+    if (!this.isDirty || this.lastDiskContent === null) {
+      console.log('handleExternalChange: no local edits, reloading');
+      this.lastDiskContent = diskContent;
+      this.setViewData(diskContent, true);
+      return;
+    }
+
+    const chunks = threeWayMerge(this.lastDiskContent, this.getViewData(), diskContent);
+    if (!hasConflicts(chunks)) {
+      console.log('handleExternalChange: merged cleanly');
+      await this.applyMerge(resolveMerge(chunks), diskContent);
+      return;
+    }
+
+    console.log('handleExternalChange: conflicting edits, asking the user');
+    this.conflictOpen = true;
+    new ConflictModal(this.app, {
+      fileName: this.file.basename,
+      chunks,
+      onResolve: (content) => {
+        this.conflictOpen = false;
+        this.applyMerge(content, diskContent);
+      },
+      onCancel: () => {
+        // Keep the old base so the next save runs into the conflict again
+        this.conflictOpen = false;
+        new Notice('Conflict not resolved. Your edits will not be saved until it is.');
+      },
+    }).open();
+  }
+
+  private async applyMerge(content: string, diskContent: string) {
+    this.lastDiskContent = diskContent;
+    // The fidelity state still describes the note as loaded, so leave it alone
+    this.setEditorContent(content);
+
+    this.isDirty = content !== diskContent;
+    if (this.isDirty) {
+      await this.saveToFile();
+    }
+  }
+
+  async save(clear?: boolean): Promise<void> {
+    // requestSave() from the properties panel ends up here, route it through
+    // the same checks as our own saves
+    await this.saveToFile();
   }
 
   clear(): void {
     if (this.editor) {
       this.editor.commands.clearContent();
       this.frontMatter = {};
+      this.noteParts = splitNote('');
       if (this.propertiesPanel) {
         this.propertiesPanel.update({});
       }
@@ -421,26 +870,47 @@ export class WYSIWYGView extends TextFileView {
       return;
     }
 
+    // Never write a version that lost content without the user agreeing to it
+    if (!this.canSave()) {
+      console.warn('saveToFile: note does not round-trip, skipping save');
+      return;
+    }
+
+    if (this.conflictOpen) {
+      console.log('saveToFile: waiting for conflict resolution, skipping save');
+      return;
+    }
+
     try {
       // Get markdown from editor
-      const markdownStorage = this.editor.storage.markdown;
-      if (!markdownStorage || typeof markdownStorage.getMarkdown !== 'function') {
+      const markdown = this.getMarkdown();
+      if (markdown === null) {
         console.error('saveToFile: markdown storage not available');
         console.log('saveToFile: storage keys =', Object.keys(this.editor.storage));
         return;
       }
 
-      const markdown = markdownStorage.getMarkdown();
       console.log('saveToFile: got markdown, length =', markdown?.length, ', preview =', markdown?.substring(0, 100));
 
       // Combine with front matter
-      let content = markdown;
-      if (Object.keys(this.frontMatter).length > 0) {
-        content = matter.stringify(markdown, this.frontMatter);
-        console.log('saveToFile: added frontmatter');
+      const content = joinNote(this.noteParts, this.frontMatter, markdown);
+
+      // Merge instead of clobbering if the file changed since we last saw it
+      const diskContent = await this.app.vault.read(this.file);
+      if (this.lastDiskContent !== null && diskContent !== this.lastDiskContent) {
+        console.log('saveToFile: file changed on disk since last sync');
+        await this.handleExternalChange(diskContent);
+        return;
+      }
+
+      this.isDirty = false;
+      if (content === diskContent) {
+        console.log('saveToFile: nothing changed, skipping write');
+        return;
       }
 
       // Write directly to vault
+      this.lastDiskContent = content;
       await this.app.vault.modify(this.file, content);
       console.log('saveToFile: file written successfully');
     } catch (error) {
@@ -457,8 +927,15 @@ export class WYSIWYGView extends TextFileView {
     // Set new timeout for save
     this.saveTimeout = setTimeout(async () => {
       console.log('debouncedSave: triggered');
+      if (!this.canSave()) {
+        // Ask once per loaded file, the banner stays up afterwards
+        if (!this.fidelityPrompted) {
+          this.showFidelityModal();
+        }
+        return;
+      }
       await this.saveToFile();
-    }, this.saveDebounceMs);
+    }, this.plugin.settings.saveDebounceMs);
   }
 
   async onClose() {
@@ -470,6 +947,8 @@ export class WYSIWYGView extends TextFileView {
     // Save immediately on close
     await this.saveToFile();
 
+    this.linkPopover?.close();
+
     if (this.editor) {
       this.editor.destroy();
       this.editor = null;
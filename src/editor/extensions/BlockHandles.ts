@@ -0,0 +1,72 @@
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { BlockHandle } from '../ui/BlockHandle';
+import { findBlockRange } from '../utils/blocks';
+import type { WYSIWYGView } from '../WYSIWYGView';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    blockHandles: {
+      moveBlockUp: () => ReturnType;
+      moveBlockDown: () => ReturnType;
+    };
+  }
+}
+
+export interface BlockHandlesOptions {
+  view: WYSIWYGView;
+}
+
+export const BlockHandles = Extension.create<BlockHandlesOptions>({
+  name: 'blockHandles',
+
+  addOptions() {
+    return {
+      view: null as any,
+    };
+  },
+
+  addCommands() {
+    // Swaps the blocks the selection covers, children included, with their previous or next sibling
+    const moveBlock = (direction: -1 | 1) => () => ({ state, tr, dispatch }: any) => {
+      const { selection } = state;
+      const range = findBlockRange(selection.$from, selection.$to);
+      if (!range) return false;
+
+      const { parent, start, end, startIndex, endIndex } = range;
+      const sibling = direction < 0 ? parent.maybeChild(startIndex - 1) : parent.maybeChild(endIndex);
+      if (!sibling) return false;
+
+      if (dispatch) {
+        // The sibling moves to the other side, so the selection maps along with the blocks
+        if (direction < 0) {
+          tr.insert(end, sibling);
+          tr.delete(start - sibling.nodeSize, start);
+        } else {
+          tr.delete(end, end + sibling.nodeSize);
+          tr.insert(start, sibling);
+        }
+        tr.setSelection(selection.map(tr.doc, tr.mapping));
+        tr.scrollIntoView();
+      }
+      return true;
+    };
+
+    return {
+      moveBlockUp: moveBlock(-1),
+      moveBlockDown: moveBlock(1),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const editor = this.editor;
+    const view = this.options.view;
+
+    return [
+      new Plugin({
+        key: new PluginKey('blockHandles'),
+        view: editorView => new BlockHandle(editor, editorView, view),
+      }),
+    ];
+  },
+});
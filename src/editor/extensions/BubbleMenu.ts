@@ -0,0 +1,31 @@
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { BubbleToolbar } from '../ui/BubbleToolbar';
+import type { WYSIWYGView } from '../WYSIWYGView';
+
+export interface BubbleMenuOptions {
+  view: WYSIWYGView;
+}
+
+// Formatting toolbar over selected text
+export const BubbleMenu = Extension.create<BubbleMenuOptions>({
+  name: 'bubbleMenu',
+
+  addOptions() {
+    return {
+      view: null as any,
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const editor = this.editor;
+    const view = this.options.view;
+
+    return [
+      new Plugin({
+        key: new PluginKey('bubbleMenu'),
+        view: editorView => new BubbleToolbar(editor, editorView, view),
+      }),
+    ];
+  },
+});
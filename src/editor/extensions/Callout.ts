@@ -0,0 +1,316 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { Menu, setIcon } from 'obsidian';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    callout: {
+      setCallout: (attributes?: { type?: string; title?: string | null }) => ReturnType;
+    };
+  }
+}
+
+export type CalloutFold = '+' | '-' | null;
+
+// The built-in callout types and their aliases, with the icon Obsidian uses for them
+const CALLOUT_TYPES: { type: string; icon: string; aliases: string[] }[] = [
+  { type: 'note', icon: 'pencil', aliases: [] },
+  { type: 'abstract', icon: 'clipboard-list', aliases: ['summary', 'tldr'] },
+  { type: 'info', icon: 'info', aliases: [] },
+  { type: 'todo', icon: 'check-circle-2', aliases: [] },
+  { type: 'tip', icon: 'flame', aliases: ['hint', 'important'] },
+  { type: 'success', icon: 'check', aliases: ['check', 'done'] },
+  { type: 'question', icon: 'help-circle', aliases: ['help', 'faq'] },
+  { type: 'warning', icon: 'alert-triangle', aliases: ['caution', 'attention'] },
+  { type: 'failure', icon: 'x', aliases: ['fail', 'missing'] },
+  { type: 'danger', icon: 'zap', aliases: ['error'] },
+  { type: 'bug', icon: 'bug', aliases: [] },
+  { type: 'example', icon: 'list', aliases: [] },
+  { type: 'quote', icon: 'quote', aliases: ['cite'] },
+];
+
+// `[!type]`, an optional fold marker and the title, on the first line of a quote
+const CALLOUT_PATTERN = /^\[!([^\]\s]+)\]([+-]?)(?:[ \t]+([^\n]*))?[ \t]*(?:\n|$)/;
+
+function getCalloutIcon(type: string): string {
+  const lowerType = type.toLowerCase();
+  const callout = CALLOUT_TYPES.find(c => c.type === lowerType || c.aliases.includes(lowerType));
+  return callout?.icon ?? 'pencil';
+}
+
+// Obsidian shows the type as the title when there is none
+function getDefaultTitle(type: string): string {
+  return type.charAt(0).toUpperCase() + type.slice(1).toLowerCase();
+}
+
+// `[!type]` after the serializer escaped it at the start of a line
+const ESCAPED_CALLOUT_MARKER = /^\\\[!([^\]\s\\]+)\\\]/;
+
+/**
+ * Renders the blocks of a quote or callout. `[!type]` at the start of a line
+ * is only escaped on the first line of a plain quote, the one place it would
+ * turn the quote into a callout.
+ */
+export function renderQuoteContent(state: any, node: any, isCallout: boolean) {
+  const esc = Object.getPrototypeOf(state).esc;
+  const keepMarker = (isFirstLine: boolean) => (str: string, startOfLine = false) => {
+    const escaped = esc.call(state, str, startOfLine);
+    // Lines after the first in a paragraph are only escaped as if mid-line
+    const atLineStart = startOfLine || /(^|\n)[ \t>]*$/.test(state.out);
+    return atLineStart && !(isFirstLine && startOfLine) ? escaped.replace(ESCAPED_CALLOUT_MARKER, '[!$1]') : escaped;
+  };
+  const outer = state.esc;
+
+  node.forEach((child: any, _offset: number, index: number) => {
+    state.esc = keepMarker(!isCallout && index === 0);
+    state.render(child, node, index);
+  });
+  state.esc = outer;
+}
+
+/**
+ * Obsidian callout, a quote starting with `> [!type]+ Title`. The title line
+ * is kept in attributes, the rest of the quote is the callout's content.
+ */
+export const Callout = Node.create({
+  name: 'callout',
+
+  group: 'block',
+
+  content: 'block+',
+
+  defining: true,
+
+  addAttributes() {
+    return {
+      type: {
+        default: 'note',
+        parseHTML: element => element.getAttribute('data-callout') || 'note',
+        renderHTML: () => ({}),
+      },
+      title: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-callout-title'),
+        renderHTML: attributes => (attributes.title !== null ? { 'data-callout-title': attributes.title } : {}),
+      },
+      fold: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-callout-fold') || null,
+        renderHTML: attributes => (attributes.fold ? { 'data-callout-fold': attributes.fold } : {}),
+      },
+      // `> [!note]` was followed by an empty `>` line before the content
+      separated: {
+        default: false,
+        parseHTML: element => element.hasAttribute('data-callout-separated'),
+        renderHTML: attributes => (attributes.separated ? { 'data-callout-separated': '' } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'blockquote[data-callout]',
+        priority: 100,
+      },
+      {
+        tag: 'div.callout[data-callout]',
+        contentElement: '.callout-content',
+        priority: 100,
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(HTMLAttributes, { class: 'callout', 'data-callout': node.attrs.type }),
+      ['div', { class: 'callout-content' }, 0],
+    ];
+  },
+
+  addCommands() {
+    return {
+      setCallout: attributes => ({ commands }) => {
+        return commands.wrapIn(this.name, attributes);
+      },
+    };
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          const { type, title, fold, separated } = node.attrs;
+
+          state.wrapBlock('> ', null, node, () => {
+            state.write(`[!${type}]${fold ?? ''}${title ? ` ${title}` : ''}`);
+
+            // A callout without content has only the empty paragraph the schema requires
+            const first = node.firstChild;
+            if (node.childCount === 1 && first.type.name === 'paragraph' && first.content.size === 0) {
+              return;
+            }
+
+            if (separated) {
+              // Leaves a `>` line between the title and the content
+              state.closed = node;
+            } else {
+              state.ensureNewLine();
+            }
+            renderQuoteContent(state, node, true);
+          });
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.core.ruler.__find__('callout') !== -1) {
+              return;
+            }
+
+            // Turn quotes that start with [!type] into callouts before their inline content is parsed
+            markdownit.core.ruler.before('inline', 'callout', function callout(state: any) {
+              const tokens = state.tokens;
+
+              for (let i = 0; i < tokens.length; i++) {
+                if (tokens[i].type !== 'blockquote_open' ||
+                    tokens[i + 1]?.type !== 'paragraph_open' ||
+                    tokens[i + 2]?.type !== 'inline') {
+                  continue;
+                }
+
+                const inline = tokens[i + 2];
+                const match = CALLOUT_PATTERN.exec(inline.content);
+                if (!match) continue;
+
+                tokens[i].attrSet('data-callout', match[1]);
+                if (match[2]) tokens[i].attrSet('data-callout-fold', match[2]);
+                if (match[3]?.trim()) tokens[i].attrSet('data-callout-title', match[3].trim());
+
+                inline.content = inline.content.slice(match[0].length);
+                if (!inline.content) {
+                  // The title was the whole paragraph, a blank `>` line may follow it
+                  const titleEnd = tokens[i + 1].map?.[1];
+                  const next = tokens[i + 4];
+                  tokens.splice(i + 1, 3);
+                  if (next?.type !== 'blockquote_close' && titleEnd !== undefined && next?.map && next.map[0] > titleEnd) {
+                    tokens[i].attrSet('data-callout-separated', '');
+                  }
+                }
+              }
+            });
+          },
+        },
+      },
+    };
+  },
+
+  addNodeView() {
+    return ({ node: initialNode, getPos, editor }) => {
+      let node = initialNode;
+      let folded = node.attrs.fold === '-';
+
+      const dom = document.createElement('div');
+      dom.className = 'callout';
+
+      const header = dom.createDiv({ cls: 'callout-title' });
+      header.contentEditable = 'false';
+      const iconEl = header.createDiv({ cls: 'callout-icon clickable-icon' });
+      iconEl.setAttribute('aria-label', 'Change callout type');
+      const titleInput = header.createEl('input', { cls: 'callout-title-inner', type: 'text' });
+      const foldEl = header.createDiv({ cls: 'callout-fold' });
+      setIcon(foldEl, 'chevron-down');
+
+      const contentDOM = dom.createDiv({ cls: 'callout-content' });
+
+      const setAttributes = (attrs: Record<string, any>) => {
+        if (typeof getPos !== 'function') return;
+        const pos = getPos();
+        if (pos === undefined) return;
+        editor.view.dispatch(editor.state.tr.setNodeMarkup(pos, undefined, { ...node.attrs, ...attrs }));
+      };
+
+      const render = () => {
+        const { type, title, fold } = node.attrs;
+        dom.dataset.callout = type.toLowerCase();
+        if (fold) {
+          dom.dataset.calloutFold = fold;
+        } else {
+          delete dom.dataset.calloutFold;
+        }
+        dom.toggleClass('is-collapsible', fold !== null);
+        dom.toggleClass('is-collapsed', fold !== null && folded);
+        foldEl.toggle(fold !== null);
+
+        setIcon(iconEl, getCalloutIcon(type));
+        titleInput.placeholder = getDefaultTitle(type);
+        if (document.activeElement !== titleInput) {
+          titleInput.value = title ?? '';
+        }
+      };
+
+      iconEl.addEventListener('click', (event) => {
+        if (!editor.isEditable) return;
+        const menu = new Menu();
+
+        CALLOUT_TYPES.forEach(({ type, icon }) => {
+          menu.addItem(item => item
+            .setTitle(getDefaultTitle(type))
+            .setIcon(icon)
+            .setChecked(node.attrs.type.toLowerCase() === type)
+            .onClick(() => setAttributes({ type })));
+        });
+
+        menu.addSeparator();
+        const foldOptions: [CalloutFold, string][] = [[null, 'Not foldable'], ['+', 'Foldable, expanded'], ['-', 'Foldable, collapsed']];
+        foldOptions.forEach(([fold, label]) => {
+          menu.addItem(item => item
+            .setTitle(label)
+            .setChecked(node.attrs.fold === fold)
+            .onClick(() => {
+              folded = fold === '-';
+              setAttributes({ fold });
+            }));
+        });
+
+        menu.showAtMouseEvent(event);
+      });
+
+      // Folding is only a view state, the marker in the file stays as it was
+      foldEl.addEventListener('click', () => {
+        folded = !folded;
+        render();
+      });
+
+      titleInput.addEventListener('input', () => {
+        setAttributes({ title: titleInput.value || null });
+      });
+
+      titleInput.addEventListener('keydown', (event) => {
+        // Enter moves into the content like it does after a heading
+        if (event.key === 'Enter' && typeof getPos === 'function') {
+          event.preventDefault();
+          const pos = getPos();
+          if (pos !== undefined) {
+            editor.chain().focus().setTextSelection(pos + 2).run();
+          }
+        }
+      });
+
+      render();
+
+      return {
+        dom,
+        contentDOM,
+        update: updatedNode => {
+          if (updatedNode.type !== node.type) return false;
+          node = updatedNode;
+          render();
+          return true;
+        },
+        // Typing in the title belongs to the input, not the editor
+        stopEvent: event => header.contains(event.target as HTMLElement),
+        ignoreMutation: mutation => !contentDOM.contains(mutation.target),
+      };
+    };
+  },
+});
@@ -1,6 +1,130 @@
 import { Node, mergeAttributes, textblockTypeInputRule } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, TextSelection } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { Component, MarkdownPreviewRenderer, MarkdownRenderer, loadMermaid, loadPrism, setIcon } from 'obsidian';
+import type { WYSIWYGView } from '../WYSIWYGView';
+import { LanguagePicker } from '../ui/LanguagePicker';
 
-export const CodeBlockExtension = Node.create({
+export interface CodeBlockOptions {
+  languageClassPrefix: string;
+  HTMLAttributes: Record<string, any>;
+  view: WYSIWYGView;
+}
+
+// Names Obsidian accepts that Prism only knows under another name
+const LANGUAGE_ALIASES: Record<string, string> = {
+  'c++': 'cpp',
+  'c#': 'csharp',
+  'objective-c': 'objectivec',
+  'shell': 'bash',
+  'zsh': 'bash',
+};
+
+// Offered in the language picker until Prism has loaded
+const COMMON_LANGUAGES = ['bash', 'c', 'cpp', 'css', 'go', 'html', 'java', 'javascript', 'json', 'markdown', 'python', 'rust', 'sql', 'typescript', 'yaml'];
+
+let prism: any = null;
+
+function getGrammar(language: string | null): any {
+  if (!prism || !language) return null;
+  const name = language.toLowerCase();
+  return prism.languages[name] ?? prism.languages[LANGUAGE_ALIASES[name]] ?? null;
+}
+
+function getLanguageNames(): string[] {
+  if (!prism) return COMMON_LANGUAGES;
+  // prism.languages also holds helpers like extend() and insertBefore()
+  return Object.keys(prism.languages)
+    .filter(name => typeof prism.languages[name] === 'object')
+    .sort();
+}
+
+// Backticks or tildes, one longer than any run of them at the start of a line in the code
+function getFence(fence: string | null, code: string): string {
+  const marker = fence?.[0] === '~' ? '~' : '`';
+  let length = Math.max(3, fence?.length ?? 3);
+  const runs = code.match(marker === '`' ? /^\s*`{3,}/gm : /^\s*~{3,}/gm) || [];
+  runs.forEach(run => {
+    length = Math.max(length, run.trim().length + 1);
+  });
+  return marker.repeat(length);
+}
+
+let mermaidId = 0;
+
+// Mermaid or a code block processor registered by a plugin, like dataview
+function hasPreview(language: string | null): boolean {
+  if (!language) return false;
+  // Not in the public typings, maps languages to the registered processors
+  const processors = (MarkdownPreviewRenderer as any).codeBlockPostProcessors ?? {};
+  return language === 'mermaid' || language in processors;
+}
+
+async function renderPreview(view: WYSIWYGView, language: string, code: string, el: HTMLElement, component: Component) {
+  if (language === 'mermaid') {
+    const mermaid = await loadMermaid();
+    const { svg } = await mermaid.render(`wysiwyg-mermaid-${mermaidId++}`, code);
+    const svgEl = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+    el.appendChild(document.importNode(svgEl, true));
+    return;
+  }
+
+  // Processors get the same fenced block a note in reading view would give them
+  const fence = getFence(null, code);
+  await MarkdownRenderer.render(view.app, `${fence}${language}\n${code}\n${fence}`, el, view.file?.path || '', component);
+}
+
+// Inline decorations for the Prism tokens of one code block
+function highlightCode(node: ProseMirrorNode, pos: number, decorations: Decoration[]) {
+  const grammar = getGrammar(node.attrs.language);
+  if (!grammar) return;
+
+  let offset = pos + 1;
+  const visit = (tokens: any[], classes: string[]) => {
+    tokens.forEach(token => {
+      if (typeof token === 'string') {
+        if (classes.length) {
+          decorations.push(Decoration.inline(offset, offset + token.length, { class: classes.join(' ') }));
+        }
+        offset += token.length;
+        return;
+      }
+
+      const aliases = Array.isArray(token.alias) ? token.alias : token.alias ? [token.alias] : [];
+      const tokenClasses = [...classes, 'token', token.type, ...aliases];
+      if (typeof token.content === 'string') {
+        visit([token.content], tokenClasses);
+      } else {
+        visit(Array.isArray(token.content) ? token.content : [token.content], tokenClasses);
+      }
+    });
+  };
+
+  visit(prism.tokenize(node.textContent, grammar), []);
+}
+
+function buildDecorations(doc: ProseMirrorNode, name: string): DecorationSet {
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name === name) {
+      highlightCode(node, pos, decorations);
+      return false;
+    }
+    return true;
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+const highlightKey = new PluginKey<DecorationSet>('codeHighlight');
+
+/**
+ * Fenced and indented code blocks. Highlighting uses the Prism that ships
+ * with Obsidian, the fence and info string are written back as they were.
+ * Mermaid and languages other plugins render are shown as a preview until
+ * clicked.
+ */
+export const CodeBlockExtension = Node.create<CodeBlockOptions>({
   name: 'codeBlock',
 
   content: 'text*',
@@ -17,6 +141,7 @@ export const CodeBlockExtension = Node.create({
     return {
       languageClassPrefix: 'language-',
       HTMLAttributes: {},
+      view: null as any,
     };
   },
 
@@ -43,6 +168,21 @@ export const CodeBlockExtension = Node.create({
         },
         rendered: false,
       },
+      // ``` or ~~~ of the original length, empty for an indented code block
+      fence: {
+        default: '```',
+        parseHTML: element => {
+          if (element.hasAttribute('data-indented')) return '';
+          return element.firstElementChild?.getAttribute('data-fence') || '```';
+        },
+        rendered: false,
+      },
+      // Everything after the fence, the language and anything following it
+      info: {
+        default: null,
+        parseHTML: element => element.firstElementChild?.getAttribute('data-info') || null,
+        rendered: false,
+      },
     };
   },
 
@@ -71,6 +211,56 @@ export const CodeBlockExtension = Node.create({
     ];
   },
 
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          const { language, fence, info } = node.attrs;
+
+          if (fence === '' && !language) {
+            // Indented code block
+            state.wrapBlock('    ', null, node, () => state.text(node.textContent, false));
+            return;
+          }
+
+          // The info string can carry more than the language, ```js title="a.js"
+          const rest = info && language && info.startsWith(language) ? info.slice(language.length) : '';
+          const marker = getFence(fence || null, node.textContent);
+
+          state.write(marker + (language || '') + rest + '\n');
+          state.text(node.textContent, false);
+          state.ensureNewLine();
+          state.write(marker);
+          state.closeBlock(node);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.core.ruler.__find__('code_fence') !== -1) {
+              return;
+            }
+
+            // Keep the fence and the full info string for the serializer
+            markdownit.core.ruler.push('code_fence', function codeFence(state: any) {
+              state.tokens.forEach((token: any) => {
+                if (token.type === 'fence') {
+                  token.attrSet('data-fence', token.markup);
+                  token.attrSet('data-info', token.info.trim());
+                } else if (token.type === 'code_block') {
+                  token.attrSet('data-indented', '');
+                }
+              });
+            });
+          },
+          updateDOM(element: HTMLElement) {
+            // markdown-it ends the code with a newline that isn't part of it
+            element.innerHTML = element.innerHTML.replace(/\n<\/code><\/pre>/g, '</code></pre>');
+          },
+        },
+      },
+    };
+  },
+
   addCommands() {
     return {
       setCodeBlock: attributes => ({ commands }) => {
@@ -83,6 +273,33 @@ export const CodeBlockExtension = Node.create({
   },
 
   addKeyboardShortcuts() {
+    // Obsidian's "Indent using tabs" and "Tab indent size" settings
+    const getIndent = (): string => {
+      const vault = this.options.view?.app.vault;
+      if (!vault || vault.getConfig('useTab') !== false) return '\t';
+      const tabSize = vault.getConfig('tabSize');
+      return ' '.repeat(typeof tabSize === 'number' ? tabSize : 4);
+    };
+
+    // Start of every line the selection touches in the code block
+    const getLineStarts = (): number[] | null => {
+      const { $from, from, to } = this.editor.state.selection;
+      if ($from.parent.type.name !== this.name) return null;
+
+      const start = $from.start();
+      const text = $from.parent.textContent;
+      const starts: number[] = [];
+      let lineStart = text.lastIndexOf('\n', from - start - 1) + 1;
+
+      while (lineStart <= to - start) {
+        starts.push(start + lineStart);
+        const next = text.indexOf('\n', lineStart);
+        if (next === -1) break;
+        lineStart = next + 1;
+      }
+      return starts;
+    };
+
     return {
       'Mod-Alt-c': () => this.editor.commands.toggleCodeBlock(),
       Backspace: () => {
@@ -99,18 +316,228 @@ export const CodeBlockExtension = Node.create({
 
         return false;
       },
+      Tab: () => {
+        const starts = getLineStarts();
+        if (!starts) return false;
+
+        const indent = getIndent();
+        const { state, view } = this.editor;
+
+        if (state.selection.empty) {
+          view.dispatch(state.tr.insertText(indent));
+          return true;
+        }
+
+        const tr = state.tr;
+        starts.forEach(pos => tr.insertText(indent, tr.mapping.map(pos)));
+        view.dispatch(tr);
+        return true;
+      },
+      'Shift-Tab': () => {
+        const starts = getLineStarts();
+        if (!starts) return false;
+
+        const indent = getIndent();
+        const { state, view } = this.editor;
+        const tr = state.tr;
+
+        starts.forEach(pos => {
+          const mapped = tr.mapping.map(pos);
+          const line = tr.doc.textBetween(mapped, Math.min(mapped + indent.length, tr.doc.resolve(mapped).end()));
+          // A tab or up to one indent worth of spaces
+          const width = line.startsWith('\t') ? 1 : (/^ */.exec(line)?.[0].length ?? 0);
+          if (width > 0) tr.delete(mapped, mapped + width);
+        });
+
+        if (tr.docChanged) view.dispatch(tr);
+        // Keep Shift-Tab in the block even when there was nothing to outdent
+        return true;
+      },
     };
   },
 
   addInputRules() {
     return [
       textblockTypeInputRule({
-        find: /^```([a-z]+)?[\s\n]$/,
+        // Any info string Obsidian accepts, like c++ or shell-session
+        find: /^(`{3,}|~{3,})([^\s`]+)?\s$/,
         type: this.type,
         getAttributes: match => ({
-          language: match[1],
+          fence: match[1],
+          language: match[2] || null,
         }),
       }),
     ];
   },
+
+  addNodeView() {
+    return ({ node: initialNode, getPos, editor }) => {
+      let node = initialNode;
+
+      const dom = document.createElement('div');
+      dom.className = 'wysiwyg-code-block';
+
+      const header = dom.createDiv({ cls: 'wysiwyg-code-block-header' });
+      header.contentEditable = 'false';
+      const languageButton = header.createEl('button', { cls: 'wysiwyg-code-block-language' });
+      const copyButton = header.createEl('button', { cls: 'wysiwyg-code-block-copy clickable-icon', attr: { 'aria-label': 'Copy' } });
+      setIcon(copyButton, 'copy');
+
+      const pre = dom.createEl('pre');
+      const contentDOM = pre.createEl('code');
+
+      // Rendered output for languages with a renderer, shown instead of the source
+      const preview = dom.createDiv({ cls: 'wysiwyg-code-block-preview markdown-rendered' });
+      preview.contentEditable = 'false';
+      let component: Component | null = null;
+      let renderedSource: string | null = null;
+      let editing = false;
+      let renderId = 0;
+
+      const renderPreviewContent = async () => {
+        const { language } = node.attrs;
+        const source = `${language}\n${node.textContent}`;
+        if (source === renderedSource) return;
+        renderedSource = source;
+
+        const id = ++renderId;
+        component?.unload();
+        component = new Component();
+        component.load();
+
+        // Rendered off-screen, the preview keeps the previous output until this one is done
+        const output = createDiv();
+        try {
+          await renderPreview(this.options.view, language, node.textContent, output, component);
+        } catch (error) {
+          output.empty();
+          output.createEl('pre', { cls: 'wysiwyg-code-block-error', text: String(error?.message ?? error) });
+        }
+
+        // A newer render replaced this one
+        if (id !== renderId) return;
+        preview.empty();
+        preview.append(...Array.from(output.childNodes));
+      };
+
+      const render = () => {
+        const { language } = node.attrs;
+        languageButton.setText(language || 'plain text');
+        contentDOM.className = language ? `${this.options.languageClassPrefix}${language}` : '';
+        pre.className = language ? `${this.options.languageClassPrefix}${language}` : '';
+        languageButton.disabled = !editor.isEditable;
+
+        const showPreview = !editing && !!this.options.view && hasPreview(language);
+        dom.toggleClass('is-previewing', showPreview);
+        if (showPreview) {
+          renderPreviewContent();
+        }
+      };
+
+      // Clicking the preview edits the source, leaving the block shows the preview again
+      preview.addEventListener('click', (event) => {
+        if (!editor.isEditable || typeof getPos !== 'function') return;
+        // Links and buttons in the rendered output keep working
+        if ((event.target as HTMLElement).closest('a, button, input')) return;
+
+        const pos = getPos();
+        if (pos === undefined) return;
+        editing = true;
+        render();
+        editor.chain().focus().setTextSelection(pos + 1).run();
+      });
+
+      const onSelectionUpdate = () => {
+        if (typeof getPos !== 'function' || !hasPreview(node.attrs.language)) return;
+        const pos = getPos();
+        const { from, to } = editor.state.selection;
+        // Arrow keys into the block edit it too
+        const inside = pos !== undefined && from > pos && to < pos + node.nodeSize;
+        if (inside !== editing) {
+          editing = inside;
+          render();
+        }
+      };
+      editor.on('selectionUpdate', onSelectionUpdate);
+
+      languageButton.addEventListener('click', () => {
+        new LanguagePicker(languageButton, getLanguageNames(), node.attrs.language || '', (language) => {
+          if (typeof getPos !== 'function') return;
+          const pos = getPos();
+          if (pos === undefined) return;
+
+          // A new language replaces the first word of the info string, the rest stays
+          const { info, language: oldLanguage } = node.attrs;
+          const rest = info && oldLanguage && info.startsWith(oldLanguage) ? info.slice(oldLanguage.length) : '';
+          const tr = editor.state.tr.setNodeMarkup(pos, undefined, {
+            ...node.attrs,
+            language: language || null,
+            info: language ? language + rest : null,
+            // Indented code has no place for a language
+            fence: node.attrs.fence || '```',
+          });
+          editor.view.dispatch(tr.setSelection(TextSelection.near(tr.doc.resolve(pos + 1))));
+          editor.view.focus();
+        });
+      });
+
+      copyButton.addEventListener('click', async () => {
+        await navigator.clipboard.writeText(node.textContent);
+        setIcon(copyButton, 'check');
+        window.setTimeout(() => setIcon(copyButton, 'copy'), 1500);
+      });
+
+      render();
+
+      return {
+        dom,
+        contentDOM,
+        update: updatedNode => {
+          if (updatedNode.type !== node.type) return false;
+          node = updatedNode;
+          render();
+          return true;
+        },
+        stopEvent: event => header.contains(event.target as HTMLElement) || preview.contains(event.target as HTMLElement),
+        // Language classes are set here, only text changes in the code are the editor's
+        ignoreMutation: mutation => mutation.type === 'attributes' || !contentDOM.contains(mutation.target),
+        destroy: () => {
+          renderId++;
+          component?.unload();
+          editor.off('selectionUpdate', onSelectionUpdate);
+        },
+      };
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const name = this.name;
+
+    return [
+      new Plugin({
+        key: highlightKey,
+        state: {
+          init: (_, state) => buildDecorations(state.doc, name),
+          apply: (tr, decorations) => (tr.docChanged || tr.getMeta(highlightKey)
+            ? buildDecorations(tr.doc, name)
+            : decorations.map(tr.mapping, tr.doc)),
+        },
+        props: {
+          decorations: state => highlightKey.getState(state),
+        },
+        view: editorView => {
+          // Prism is loaded on demand, highlight again once it's there
+          if (!prism) {
+            loadPrism().then(loaded => {
+              prism = loaded;
+              if (!editorView.isDestroyed) {
+                editorView.dispatch(editorView.state.tr.setMeta(highlightKey, true));
+              }
+            }).catch(error => console.error('CodeBlock: failed to load Prism', error));
+          }
+          return {};
+        },
+      }),
+    ];
+  },
 });
@@ -0,0 +1,359 @@
+import { InputRule, Node } from '@tiptap/core';
+import type { Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { setIcon } from 'obsidian';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const COMMENT_INPUT_PATTERN = /(?:^|[^%])(%%([^%]+)%%)$/;
+
+/**
+ * Inline comments show their text dimmed and become a text box on click.
+ * Block comments fold away behind a header and are edited in place.
+ */
+function createCommentView(node: ProseMirrorNode, getPos: (() => number | undefined) | boolean, editor: Editor, block: boolean) {
+  let currentNode = node;
+
+  const dom = document.createElement(block ? 'div' : 'span');
+  dom.className = block ? 'wysiwyg-comment wysiwyg-comment-block' : 'wysiwyg-comment';
+  dom.contentEditable = 'false';
+
+  const setContent = (content: string) => {
+    if (typeof getPos !== 'function') return;
+    const pos = getPos();
+    if (pos === undefined || content === currentNode.attrs.content) return;
+    editor.view.dispatch(editor.state.tr.setNodeMarkup(pos, undefined, { ...currentNode.attrs, content }));
+  };
+
+  if (block) {
+    const header = dom.createDiv({ cls: 'wysiwyg-comment-header' });
+    const foldEl = header.createSpan({ cls: 'wysiwyg-comment-fold' });
+    setIcon(foldEl, 'chevron-down');
+    header.createSpan({ text: 'Comment' });
+
+    const textarea = dom.createEl('textarea', { cls: 'wysiwyg-comment-source' });
+    textarea.spellcheck = false;
+
+    const render = () => {
+      if (document.activeElement !== textarea) {
+        textarea.value = currentNode.attrs.content.replace(/^\n/, '').replace(/\n$/, '');
+      }
+      textarea.rows = Math.max(1, textarea.value.split('\n').length);
+      textarea.readOnly = !editor.isEditable;
+    };
+
+    header.addEventListener('click', () => dom.toggleClass('is-collapsed', !dom.hasClass('is-collapsed')));
+
+    textarea.addEventListener('input', () => {
+      // The newlines after the opening and before the closing %% stay where they were
+      const content: string = currentNode.attrs.content;
+      const before = content.startsWith('\n') ? '\n' : '';
+      const after = content.endsWith('\n') ? '\n' : '';
+      textarea.rows = Math.max(1, textarea.value.split('\n').length);
+      setContent(before + textarea.value + after);
+    });
+
+    render();
+
+    return {
+      dom,
+      update: (updatedNode: ProseMirrorNode) => {
+        if (updatedNode.type !== currentNode.type) return false;
+        currentNode = updatedNode;
+        render();
+        return true;
+      },
+      stopEvent: (event: Event) => textarea.contains(event.target as HTMLElement),
+      ignoreMutation: () => true,
+    };
+  }
+
+  const text = dom.createSpan({ cls: 'wysiwyg-comment-text' });
+  let input: HTMLInputElement | null = null;
+
+  const render = () => {
+    text.setText(`%%${currentNode.attrs.content}%%`);
+  };
+
+  const close = () => {
+    if (!input) return;
+    const content = input.value;
+    input.remove();
+    input = null;
+    text.show();
+
+    const pos = typeof getPos === 'function' ? getPos() : undefined;
+    if (pos === undefined) return;
+
+    if (!content.trim()) {
+      editor.chain().focus().deleteRange({ from: pos, to: pos + currentNode.nodeSize }).run();
+      return;
+    }
+    setContent(content);
+    editor.chain().focus().setTextSelection(pos + currentNode.nodeSize).run();
+  };
+
+  dom.addEventListener('click', () => {
+    if (input || !editor.isEditable) return;
+    input = dom.createEl('input', { cls: 'wysiwyg-comment-source', type: 'text' });
+    input.value = currentNode.attrs.content;
+    input.size = Math.max(4, input.value.length);
+    text.hide();
+
+    input.addEventListener('input', () => {
+      if (input) input.size = Math.max(4, input.value.length);
+    });
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' || event.key === 'Escape') {
+        event.preventDefault();
+        close();
+      }
+    });
+    input.addEventListener('blur', close);
+    input.focus();
+  });
+
+  render();
+
+  return {
+    dom,
+    update: (updatedNode: ProseMirrorNode) => {
+      if (updatedNode.type !== currentNode.type) return false;
+      currentNode = updatedNode;
+      render();
+      return true;
+    },
+    stopEvent: (event: Event) => !!input && input.contains(event.target as HTMLElement),
+    ignoreMutation: () => true,
+    destroy: () => {
+      input?.remove();
+      input = null;
+    },
+  };
+}
+
+/**
+ * Obsidian comment inside a line, `%%text%%`. The text is kept as written
+ * so it never picks up markdown escapes.
+ */
+export const Comment = Node.create({
+  name: 'comment',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addAttributes() {
+    return {
+      content: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-content') ?? '',
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'span[data-comment]',
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    return ['span', { 'data-comment': '', 'data-content': node.attrs.content, class: 'wysiwyg-comment' }, `%%${node.attrs.content}%%`];
+  },
+
+  renderText({ node }) {
+    return `%%${node.attrs.content}%%`;
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          state.write(`%%${node.attrs.content}%%`);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.inline.ruler.__find__('comment') !== -1) {
+              return;
+            }
+
+            // Register inline rule with markdown-it to parse %%comments%%
+            markdownit.inline.ruler.before('emphasis', 'comment', function comment(state: any, silent: boolean) {
+              const start = state.pos;
+
+              if (state.src.charCodeAt(start) !== 0x25 /* % */ || state.src.charCodeAt(start + 1) !== 0x25 /* % */) {
+                return false;
+              }
+
+              const end = state.src.indexOf('%%', start + 2);
+              if (end === -1 || end >= state.posMax) {
+                return false;
+              }
+
+              if (!silent) {
+                const token = state.push('html_inline', '', 0);
+                token.content = `<span data-comment data-content="${escapeHtml(state.src.slice(start + 2, end))}"></span>`;
+              }
+
+              state.pos = end + 2;
+              return true;
+            });
+          },
+        },
+      },
+    };
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor }) => createCommentView(node, getPos, editor, false);
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: COMMENT_INPUT_PATTERN,
+        handler: ({ state, range, match }) => {
+          const start = range.from + match[0].indexOf(match[1]);
+          state.tr.replaceWith(start, range.to, this.type.create({ content: match[2] }));
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * Comment spanning several lines, starting with `%%` on its own line.
+ */
+export const CommentBlock = Node.create({
+  name: 'commentBlock',
+
+  group: 'block',
+
+  atom: true,
+
+  selectable: true,
+
+  addAttributes() {
+    return {
+      // Everything between the %%, newlines included
+      content: {
+        default: '\n\n',
+        parseHTML: element => element.getAttribute('data-content') ?? '',
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-comment]',
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    return ['div', { 'data-comment': '', 'data-content': node.attrs.content, class: 'wysiwyg-comment-block' }, node.attrs.content];
+  },
+
+  renderText({ node }) {
+    return `%%${node.attrs.content}%%`;
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          // Lines are written one by one so quotes and lists prefix each of them
+          const lines = `%%${node.attrs.content}%%`.split('\n');
+          lines.forEach((line, i) => {
+            if (i > 0) state.ensureNewLine();
+            state.write(line);
+          });
+          state.closeBlock(node);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.block.ruler.__find__('comment_block') !== -1) {
+              return;
+            }
+
+            // Register block rule with markdown-it to parse %% blocks that span lines
+            markdownit.block.ruler.before('fence', 'comment_block', function commentBlock(state: any, startLine: number, endLine: number, silent: boolean) {
+              const start = state.bMarks[startLine] + state.tShift[startLine];
+              const max = state.eMarks[startLine];
+
+              if (state.sCount[startLine] - state.blkIndent >= 4 || state.src.slice(start, start + 2) !== '%%') {
+                return false;
+              }
+
+              // %%text%% on one line is an inline comment
+              const firstLine: string = state.src.slice(start + 2, max);
+              if (firstLine.includes('%%')) {
+                return false;
+              }
+
+              const lines = [firstLine];
+              let nextLine = startLine + 1;
+              let closed = false;
+
+              for (; nextLine < endLine; nextLine++) {
+                if (state.sCount[nextLine] < state.blkIndent && state.bMarks[nextLine] + state.tShift[nextLine] < state.eMarks[nextLine]) {
+                  break;
+                }
+
+                const line: string = state.getLines(nextLine, nextLine + 1, state.blkIndent, false);
+                const end = line.indexOf('%%');
+                if (end !== -1) {
+                  // Text after the closing %% would be lost in a block
+                  if (line.slice(end + 2).trim()) {
+                    return false;
+                  }
+                  lines.push(line.slice(0, end));
+                  closed = true;
+                  nextLine++;
+                  break;
+                }
+                lines.push(line);
+              }
+
+              if (!closed) {
+                return false;
+              }
+
+              if (silent) {
+                return true;
+              }
+
+              const token = state.push('html_block', '', 0);
+              token.content = `<div data-comment data-content="${escapeHtml(lines.join('\n'))}"></div>\n`;
+              token.map = [startLine, nextLine];
+              state.line = nextLine;
+              return true;
+            }, { alt: ['paragraph', 'reference', 'blockquote', 'list'] });
+          },
+        },
+      },
+    };
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor }) => createCommentView(node, getPos, editor, true);
+  },
+});
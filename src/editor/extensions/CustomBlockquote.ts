@@ -1,6 +1,18 @@
 import Blockquote from '@tiptap/extension-blockquote';
+import { renderQuoteContent } from './Callout';
 
 export const CustomBlockquote = Blockquote.extend({
-  // Use default blockquote serialization
   // Hard breaks inside blockquotes are handled by CustomHardBreak
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          state.wrapBlock('> ', null, node, () => renderQuoteContent(state, node, false));
+        },
+        parse: {
+          // handled by markdown-it
+        },
+      },
+    };
+  },
 });
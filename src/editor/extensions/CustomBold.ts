@@ -0,0 +1,33 @@
+import Bold from '@tiptap/extension-bold';
+import { openEmphasis, registerEmphasisMarkers } from './CustomItalic';
+
+export const CustomBold = Bold.extend({
+  addAttributes() {
+    return {
+      // `**` or `__`, null for bold added in the editor
+      marker: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-marker'),
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize: {
+          open: (state: any, mark: any) => openEmphasis(state, mark.attrs.marker || '**'),
+          close: (_state: any, mark: any) => mark.attrs.marker || '**',
+          mixable: true,
+          expelEnclosingWhitespace: true,
+        },
+        parse: {
+          setup(markdownit: any) {
+            registerEmphasisMarkers(markdownit);
+          },
+        },
+      },
+    };
+  },
+});
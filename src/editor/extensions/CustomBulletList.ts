@@ -1,11 +1,117 @@
-import BulletList from '@tiptap/extension-bullet-list';
+import BulletList, { BulletListOptions } from '@tiptap/extension-bullet-list';
+import type { WYSIWYGSettings } from '../../settings';
+
+export interface CustomBulletListOptions extends BulletListOptions {
+  settings: WYSIWYGSettings;
+}
+
+// Whitespace and `>` in front of a line's content
+function linePrefix(line: string): string {
+  return /^[ \t>]*/.exec(line)?.[0] ?? '';
+}
+
+/**
+ * markdown-it core rule that records on each list how it was written: the
+ * bullet or the `.`/`)` after the numbers, the indentation of lists nested
+ * in its items and whether every item repeats the same number. Shared by
+ * bullet, task and ordered lists.
+ */
+export function listSyntaxRule(state: any) {
+  const lines: string[] = state.src.split('\n');
+  // Open lists with the item currently open in each
+  const stack: { list: any; item: any; numbers: string[] }[] = [];
+
+  state.tokens.forEach((token: any) => {
+    if (token.type === 'bullet_list_open' || token.type === 'ordered_list_open') {
+      const parent = stack[stack.length - 1];
+      if (parent?.item?.map && token.map && !parent.list.attrGet('data-indent')) {
+        const itemPrefix = linePrefix(lines[parent.item.map[0]]);
+        const nestedPrefix = linePrefix(lines[token.map[0]]);
+        const indent = nestedPrefix.startsWith(itemPrefix) ? nestedPrefix.slice(itemPrefix.length) : '';
+        if (indent && /^[ \t]+$/.test(indent)) {
+          parent.list.attrSet('data-indent', indent);
+        }
+      }
+      stack.push({ list: token, item: null, numbers: [] });
+    } else if (token.type === 'bullet_list_close' || token.type === 'ordered_list_close') {
+      const closed = stack.pop();
+      // `1.` on every item, numbered by the renderer
+      const numbers = closed?.numbers ?? [];
+      if (token.type === 'ordered_list_close' && numbers.length > 1 && numbers.every(number => number === numbers[0])) {
+        closed?.list.attrSet('data-numbering', 'repeated');
+      }
+    } else if (token.type === 'list_item_open' && stack.length) {
+      const current = stack[stack.length - 1];
+      if (!current.item) {
+        // Bullet, or the delimiter after the number
+        current.list.attrSet('data-marker', token.markup);
+      }
+      current.item = token;
+      current.numbers.push(token.info);
+    }
+  });
+}
+
+export function registerListSyntax(markdownit: any) {
+  // The parser calls setup before every parse, the rule must only be added once
+  if (markdownit.core.ruler.__find__('list_syntax') === -1) {
+    markdownit.core.ruler.push('list_syntax', listSyntaxRule);
+  }
+}
+
+// Bullet and indentation a list was written with, null for new lists
+export const listSyntaxAttributes = {
+  marker: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-marker'),
+    renderHTML: () => ({}),
+  },
+  indent: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-indent'),
+    renderHTML: () => ({}),
+  },
+};
+
+/**
+ * Two lists of the same type in a row are written two blank lines apart so
+ * they don't merge, one is enough when their markers differ.
+ */
+export function separateFromPreviousList(state: any, node: any, changesMarker: boolean) {
+  if (state.closed?.type === node.type && changesMarker) {
+    state.flushClose(2);
+  }
+}
+
+export const CustomBulletList = BulletList.extend<CustomBulletListOptions>({
+  addOptions() {
+    return {
+      ...this.parent?.(),
+      settings: null as any,
+    };
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      ...listSyntaxAttributes,
+    };
+  },
 
-export const CustomBulletList = BulletList.extend({
   addStorage() {
     return {
       markdown: {
-        serialize(state: any, node: any) {
-          state.renderList(node, '  ', () => '- ');
+        serialize(this: { options: CustomBulletListOptions }, state: any, node: any) {
+          // Lists from the file keep their bullet, new ones use the setting
+          const defaultMarker = this.options.settings?.bulletListMarker || '-';
+          const marker = node.attrs.marker || defaultMarker;
+          separateFromPreviousList(state, node, (state.closed?.attrs.marker || defaultMarker) !== marker);
+          state.renderList(node, node.attrs.indent || '  ', () => `${marker} `);
+        },
+        parse: {
+          setup(markdownit: any) {
+            registerListSyntax(markdownit);
+          },
         },
       },
     };
@@ -1,21 +1,83 @@
 import { HardBreak } from '@tiptap/extension-hard-break';
 
+// Let markdown-it note on hard breaks whether they were two spaces or a backslash before the newline
+function recordBreakMarkup(markdownit: any) {
+  const ruler = markdownit.inline.ruler;
+  // The parser calls setup before every parse, the rules must only be wrapped once
+  if (ruler.__find__('newline') === -1 || ruler.__rules__[ruler.__find__('newline')].fn.breakMarkup) {
+    return;
+  }
+
+  const newline = ruler.__rules__[ruler.__find__('newline')].fn;
+  const wrappedNewline = (state: any, silent: boolean) => {
+    const spaces = /[ ]*$/.exec(state.pending)?.[0] ?? '';
+    const count = state.tokens.length;
+    const matched = newline(state, silent);
+    const token = state.tokens[state.tokens.length - 1];
+    if (matched && state.tokens.length > count && token.type === 'hardbreak') {
+      token.markup = spaces;
+    }
+    return matched;
+  };
+  wrappedNewline.breakMarkup = true;
+  ruler.at('newline', wrappedNewline);
+
+  const escape = ruler.__rules__[ruler.__find__('escape')].fn;
+  ruler.at('escape', (state: any, silent: boolean) => {
+    const count = state.tokens.length;
+    const matched = escape(state, silent);
+    const token = state.tokens[state.tokens.length - 1];
+    if (matched && state.tokens.length > count && token.type === 'hardbreak') {
+      token.markup = '\\';
+    }
+    return matched;
+  });
+
+  const render = markdownit.renderer.rules.hardbreak;
+  markdownit.renderer.rules.hardbreak = (tokens: any[], idx: number, ...rest: any[]) => {
+    const html: string = render(tokens, idx, ...rest);
+    const markup = tokens[idx].markup;
+    return markup ? html.replace('<br', `<br data-markup="${markup}"`) : html;
+  };
+}
+
 export const CustomHardBreak = HardBreak.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      // Two or more spaces, or a backslash, written before the newline; null for plain newlines
+      markup: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-markup'),
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
   addStorage() {
     return {
       markdown: {
         serialize(state: any, node: any, parent: any, index: number) {
+          // A table row has to stay on one line
+          if (state.inTable) {
+            state.write('<br>');
+            return;
+          }
+
           // Since breaks: true is enabled in Markdown config, all newlines are hard breaks
-          // So we serialize hard breaks as plain newlines instead of \\\n
+          // So we serialize hard breaks as plain newlines instead of \\\n,
+          // unless the file spelled them out
           for (let i = index + 1; i < parent.childCount; i++) {
             if (parent.child(i).type != node.type) {
-              state.write('\n');
+              state.write((node.attrs.markup ?? '') + '\n');
               return;
             }
           }
         },
         parse: {
-          // handled by markdown-it
+          setup(markdownit: any) {
+            recordBreakMarkup(markdownit);
+          },
         },
       },
     };
@@ -0,0 +1,57 @@
+import Heading from '@tiptap/extension-heading';
+
+export const CustomHeading = Heading.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      // Underline of a setext heading, `===` or `---`, null for `#` headings
+      setext: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-setext'),
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          const { level, setext } = node.attrs;
+
+          // Setext only has levels 1 and 2, other levels fall back to #
+          if (setext && level <= 2) {
+            state.renderInline(node, false);
+            state.ensureNewLine();
+            const char = level === 1 ? '=' : '-';
+            state.write(setext[0] === char ? setext : char.repeat(setext.length));
+            state.closeBlock(node);
+            return;
+          }
+
+          state.write('#'.repeat(level) + ' ');
+          state.renderInline(node, false);
+          state.closeBlock(node);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.core.ruler.__find__('setext_heading') !== -1) {
+              return;
+            }
+            // Keep the underline of setext headings as it was written
+            markdownit.core.ruler.push('setext_heading', function setextHeading(state: any) {
+              const lines = state.src.split('\n');
+              state.tokens.forEach((token: any) => {
+                if (token.type === 'heading_open' && (token.markup === '=' || token.markup === '-') && token.map) {
+                  const underline = /[=-]+(?=[ \t]*$)/.exec(lines[token.map[1] - 1] ?? '');
+                  if (underline) token.attrSet('data-setext', underline[0]);
+                }
+              });
+            });
+          },
+        },
+      },
+    };
+  },
+});
@@ -0,0 +1,42 @@
+import HorizontalRule from '@tiptap/extension-horizontal-rule';
+
+export const CustomHorizontalRule = HorizontalRule.extend({
+  addAttributes() {
+    return {
+      // `***`, `___`, `- - -` or any other form it was written in, null for new rules
+      markup: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-markup'),
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          state.write(node.attrs.markup || '---');
+          state.closeBlock(node);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.core.ruler.__find__('hr_markup') !== -1) {
+              return;
+            }
+            markdownit.core.ruler.push('hr_markup', function hrMarkup(state: any) {
+              const lines = state.src.split('\n');
+              state.tokens.forEach((token: any) => {
+                if (token.type === 'hr' && token.map) {
+                  const markup = /[-*_](?:[ \t]*[-*_]){2,}(?=[ \t]*$)/.exec(lines[token.map[0]] ?? '');
+                  if (markup) token.attrSet('data-markup', markup[0]);
+                }
+              });
+            });
+          },
+        },
+      },
+    };
+  },
+});
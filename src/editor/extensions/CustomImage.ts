@@ -0,0 +1,110 @@
+import Image, { ImageOptions } from '@tiptap/extension-image';
+import { mergeAttributes } from '@tiptap/core';
+import { TFile } from 'obsidian';
+import type { WYSIWYGView } from '../WYSIWYGView';
+
+export interface CustomImageOptions extends ImageOptions {
+  view: WYSIWYGView;
+}
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'svg', 'webp', 'avif'];
+
+// `300` or `300x200` after the pipe in ![[image.png|300]]
+const SIZE_PATTERN = /^(\d+)(?:x(\d+))?$/;
+
+export function isImagePath(path: string): boolean {
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  return IMAGE_EXTENSIONS.includes(extension);
+}
+
+function safeDecodeURI(text: string): string {
+  try {
+    return decodeURI(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Images in both `![[image.png|300]]` and `![alt](path/image.png)` form. The
+ * node keeps the link as written in `src` and which syntax it came from, the
+ * editor shows the file through the vault's resource URL.
+ */
+export const CustomImage = Image.extend<CustomImageOptions>({
+  addOptions() {
+    return {
+      ...this.parent?.(),
+      view: null as any,
+    };
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      src: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-src') ?? element.getAttribute('src'),
+      },
+      // Written as ![[...]] instead of ![](...)
+      embed: {
+        default: false,
+        parseHTML: element => element.hasAttribute('data-embed-image'),
+        renderHTML: attributes => (attributes.embed ? { 'data-embed-image': '' } : {}),
+      },
+      // Text after the pipe of an embed, a size like 300x200 or alt text
+      embedAlias: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-embed-alias'),
+        renderHTML: attributes => (attributes.embedAlias !== null ? { 'data-embed-alias': attributes.embedAlias } : {}),
+      },
+    };
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const { src, embed, embedAlias } = node.attrs;
+    const attrs: Record<string, string> = { 'data-src': src };
+
+    const view = this.options.view;
+    if (view && src && !/^(https?|data|app|file):/i.test(src)) {
+      // Markdown links are URL encoded, embeds use the plain path
+      const linkpath = embed ? src : safeDecodeURI(src);
+      const file = view.app.metadataCache.getFirstLinkpathDest(linkpath, view.file?.path || '');
+      if (file instanceof TFile) {
+        attrs.src = view.app.vault.getResourcePath(file);
+      } else {
+        attrs.class = 'is-unresolved';
+      }
+    }
+
+    const size = embed && embedAlias ? SIZE_PATTERN.exec(embedAlias) : null;
+    if (size) {
+      attrs.width = size[1];
+      if (size[2]) attrs.height = size[2];
+    } else if (embed && embedAlias) {
+      attrs.alt = embedAlias;
+    }
+
+    return ['img', mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, attrs)];
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          const { src, alt, title, embed, embedAlias } = node.attrs;
+
+          if (embed) {
+            state.write(embedAlias !== null ? `![[${src}|${embedAlias}]]` : `![[${src}]]`);
+            return;
+          }
+
+          state.write('![' + state.esc(alt || '') + '](' + (src || '').replace(/[()]/g, '\\$&') +
+            (title ? ' "' + title.replace(/"/g, '\\"') + '"' : '') + ')');
+        },
+        parse: {
+          // Use the default markdown-it parsing for ![alt](src), ![[image]] comes from the Embed rule
+        },
+      },
+    };
+  },
+});
@@ -0,0 +1,63 @@
+import Italic from '@tiptap/extension-italic';
+
+// Record whether emphasis was written with `*` or `_` on the rendered tag
+export function emphasisMarkerRule(state: any) {
+  state.tokens.forEach((block: any) => {
+    block.children?.forEach((token: any) => {
+      if (token.type === 'em_open' || token.type === 'strong_open') {
+        token.attrSet('data-marker', token.markup);
+      }
+    });
+  });
+}
+
+export function registerEmphasisMarkers(markdownit: any) {
+  // The parser calls setup before every parse, the rule must only be added once
+  if (markdownit.core.ruler.__find__('emphasis_marker') === -1) {
+    markdownit.core.ruler.push('emphasis_marker', emphasisMarkerRule);
+  }
+}
+
+/**
+ * Opening delimiter of an emphasis mark. tiptap-markdown keeps the mark's
+ * `open` to later move the delimiter past enclosing whitespace and expects a
+ * string there, so it gets the one actually written.
+ */
+export function openEmphasis(state: any, marker: string): string {
+  const inline = state.inlines?.[state.inlines.length - 1];
+  if (inline && typeof inline.delimiter === 'function') {
+    inline.delimiter = marker;
+  }
+  return marker;
+}
+
+export const CustomItalic = Italic.extend({
+  addAttributes() {
+    return {
+      // `*` or `_`, null for emphasis added in the editor
+      marker: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-marker'),
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize: {
+          open: (state: any, mark: any) => openEmphasis(state, mark.attrs.marker || '*'),
+          close: (_state: any, mark: any) => mark.attrs.marker || '*',
+          mixable: true,
+          expelEnclosingWhitespace: true,
+        },
+        parse: {
+          setup(markdownit: any) {
+            registerEmphasisMarkers(markdownit);
+          },
+        },
+      },
+    };
+  },
+});
@@ -0,0 +1,53 @@
+import OrderedList from '@tiptap/extension-ordered-list';
+import { listSyntaxAttributes, registerListSyntax, separateFromPreviousList } from './CustomBulletList';
+
+// `.` or `)` after the numbers of the list at index in parent
+function delimiterAt(parent: any, index: number): string {
+  const node = parent.child(index);
+  if (node.attrs.marker) {
+    return node.attrs.marker;
+  }
+  // Two new lists in a row need different delimiters to stay apart
+  let adjacent = 0;
+  while (index - adjacent > 0 && parent.child(index - adjacent - 1).type === node.type) adjacent++;
+  return adjacent % 2 ? ')' : '.';
+}
+
+export const CustomOrderedList = OrderedList.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      // `marker` is the delimiter after the number, `.` or `)`
+      ...listSyntaxAttributes,
+      // 'repeated' when every item was written with the start number
+      numbering: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-numbering'),
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any, parent: any, index: number) {
+          const start = node.attrs.start ?? 1;
+          const repeated = node.attrs.numbering === 'repeated';
+          const width = String(repeated ? start : start + node.childCount - 1).length;
+
+          const delimiter = delimiterAt(parent, index);
+          separateFromPreviousList(state, node, index > 0 && state.closed === parent.child(index - 1) && delimiterAt(parent, index - 1) !== delimiter);
+
+          // Numbers are written as is, not padded to the widest one
+          state.renderList(node, node.attrs.indent || ' '.repeat(width + 2), (i: number) => `${repeated ? start : start + i}${delimiter} `);
+        },
+        parse: {
+          setup(markdownit: any) {
+            registerListSyntax(markdownit);
+          },
+        },
+      },
+    };
+  },
+});
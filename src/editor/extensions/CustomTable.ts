@@ -0,0 +1,214 @@
+import Table, { TableOptions } from '@tiptap/extension-table';
+import TableCell from '@tiptap/extension-table-cell';
+import TableHeader from '@tiptap/extension-table-header';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { TableMenu } from '../ui/TableMenu';
+
+export type ColumnAlignment = 'left' | 'center' | 'right' | null;
+
+// Column alignment from markdown-it's `style="text-align:center"`
+const alignAttribute = {
+  align: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.style.textAlign || null,
+    renderHTML: (attributes: Record<string, any>) => (attributes.align ? { style: `text-align: ${attributes.align}` } : {}),
+  },
+};
+
+export const CustomTableHeader = TableHeader.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      ...alignAttribute,
+    };
+  },
+});
+
+export const CustomTableCell = TableCell.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      ...alignAttribute,
+    };
+  },
+});
+
+// Split a table row on pipes that aren't escaped, without the outer pipes
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim());
+}
+
+function parseAlignment(marker: string): ColumnAlignment {
+  const left = marker.startsWith(':');
+  const right = marker.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+}
+
+function alignmentMarker(align: ColumnAlignment, width: number): string {
+  switch (align) {
+    case 'center': return ':' + '-'.repeat(width - 2) + ':';
+    case 'right': return '-'.repeat(width - 1) + ':';
+    case 'left': return ':' + '-'.repeat(width - 1);
+    default: return '-'.repeat(width);
+  }
+}
+
+// The source can be reused if the cells and alignments are exactly what it says
+function matchesSource(lines: string[], rows: string[][], aligns: ColumnAlignment[]): boolean {
+  if (lines.length !== rows.length + 1) return false;
+
+  const markers = splitRow(lines[1]);
+  if (markers.length !== aligns.length || markers.some((marker, i) => parseAlignment(marker) !== aligns[i])) {
+    return false;
+  }
+
+  return [lines[0], ...lines.slice(2)].every((line, i) => {
+    const cells = splitRow(line);
+    // markdown-it pads short rows with empty cells
+    while (cells.length < rows[i].length) cells.push('');
+    return cells.length === rows[i].length && cells.every((cell, j) => cell === rows[i][j]);
+  });
+}
+
+// Inline markdown of one cell, paragraphs joined with <br> since a cell is a single line
+function renderCell(state: any, cell: any): string {
+  const paragraphs: string[] = [];
+
+  cell.forEach((child: any) => {
+    const start = state.out.length;
+    if (child.isTextblock) {
+      state.renderInline(child);
+    } else {
+      // Lists or quotes pasted into a cell have no GFM form, keep their text
+      state.text(child.textContent, true);
+    }
+    paragraphs.push(state.out.slice(start));
+    state.out = state.out.slice(0, start);
+  });
+
+  return paragraphs
+    .join('<br>')
+    .replace(/\n/g, '<br>')
+    .replace(/(?<!\\)\|/g, '\\|')
+    .trim();
+}
+
+/**
+ * GFM pipe tables. Tables that weren't edited are written back exactly as
+ * they were in the file, edited ones are rewritten with aligned columns.
+ */
+export const CustomTable = Table.extend<TableOptions>({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      // Markdown the table was parsed from
+      source: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-source'),
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          // Tells other serializers (hard breaks) that newlines aren't allowed
+          state.inTable = true;
+          // Flush the blank line before the table so it isn't captured with the first cell
+          state.write();
+
+          const rows: string[][] = [];
+          const aligns: ColumnAlignment[] = [];
+
+          node.forEach((row: any, _: number, rowIndex: number) => {
+            const cells: string[] = [];
+            row.forEach((cell: any) => {
+              cells.push(renderCell(state, cell));
+              if (rowIndex === 0) aligns.push(cell.attrs.align ?? null);
+
+              // Merged cells don't exist in markdown, give the others their own columns
+              for (let i = 1; i < (cell.attrs.colspan ?? 1); i++) {
+                cells.push('');
+                if (rowIndex === 0) aligns.push(cell.attrs.align ?? null);
+              }
+            });
+            rows.push(cells);
+          });
+
+          const columns = Math.max(...rows.map(cells => cells.length));
+          rows.forEach(cells => {
+            while (cells.length < columns) cells.push('');
+          });
+          while (aligns.length < columns) aligns.push(null);
+
+          let lines: string[];
+          // Tables in quotes or lists carry the `> ` or indent of their container
+          const delim: string = state.delim || '';
+          let sourceLines: string[] | null = node.attrs.source?.split('\n') ?? null;
+          if (sourceLines && delim && sourceLines.every(line => line.startsWith(delim))) {
+            sourceLines = sourceLines.map(line => line.slice(delim.length));
+          }
+
+          if (sourceLines && matchesSource(sourceLines, rows, aligns)) {
+            lines = sourceLines;
+          } else {
+            const widths = aligns.map((_, col) => Math.max(3, ...rows.map(cells => cells[col].length)));
+            const formatRow = (cells: string[]) => '| ' + cells.map((cell, col) => cell.padEnd(widths[col])).join(' | ') + ' |';
+
+            lines = [
+              formatRow(rows[0]),
+              '| ' + aligns.map((align, col) => alignmentMarker(align, widths[col])).join(' | ') + ' |',
+              ...rows.slice(1).map(formatRow),
+            ];
+          }
+
+          lines.forEach((line, i) => {
+            if (i > 0) state.ensureNewLine();
+            state.write(line);
+          });
+
+          state.inTable = false;
+          state.closeBlock(node);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.core.ruler.__find__('table_source') !== -1) {
+              return;
+            }
+
+            // Keep the source of each table so unedited tables round-trip byte for byte
+            markdownit.core.ruler.push('table_source', function tableSource(state: any) {
+              const lines = state.src.split('\n');
+              state.tokens.forEach((token: any) => {
+                if (token.type === 'table_open' && token.map) {
+                  token.attrSet('data-source', lines.slice(token.map[0], token.map[1]).join('\n'));
+                }
+              });
+            });
+          },
+        },
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const editor = this.editor;
+
+    return [
+      ...(this.parent?.() || []),
+      new Plugin({
+        key: new PluginKey('tableMenu'),
+        view: editorView => new TableMenu(editor, editorView),
+      }),
+    ];
+  },
+});
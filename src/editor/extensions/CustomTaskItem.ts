@@ -1,15 +1,224 @@
 import TaskItem from '@tiptap/extension-task-item';
+import { wrappingInputRule } from '@tiptap/core';
+import { Menu } from 'obsidian';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    customTaskItem: {
+      setTaskStatus: (status: string) => ReturnType;
+      cycleTaskStatus: () => ReturnType;
+    };
+  }
+}
+
+export interface TaskStatus {
+  symbol: string;
+  name: string;
+}
+
+// Statuses offered in the menu, in the order the cycle command steps through them
+export const TASK_STATUSES: TaskStatus[] = [
+  { symbol: ' ', name: 'To do' },
+  { symbol: '/', name: 'In progress' },
+  { symbol: 'x', name: 'Done' },
+  { symbol: '-', name: 'Cancelled' },
+  { symbol: '>', name: 'Deferred' },
+  { symbol: '?', name: 'Question' },
+];
+
+// `[ ]`, `[x]` or any other single character between the brackets
+const STATUS_PATTERN = /^\[([^\]\n])\] /;
+
+const INPUT_PATTERN = /^\s*(\[([^\]\n])?\])\s$/;
+
+// A checkbox shows as ticked for every status but to do
+function isChecked(status: string): boolean {
+  return status !== ' ';
+}
+
+// Clicking the checkbox finishes a task, or reopens a finished or cancelled one
+function toggledStatus(status: string): string {
+  return status === 'x' || status === 'X' || status === '-' ? ' ' : 'x';
+}
+
+// Task lists only exist as bullet lists in the editor
+function inBulletList(tokens: any[], itemIndex: number): boolean {
+  for (let i = itemIndex - 1; i >= 0; i--) {
+    if (tokens[i].level === tokens[itemIndex].level - 1) {
+      return tokens[i].type === 'bullet_list_open';
+    }
+  }
+  return false;
+}
+
+/**
+ * markdown-it core rule that lets the task-lists plugin take any status: the
+ * character is recorded on the list item and the text it sees is rewritten
+ * to `[ ]` or `[x]`. Runs before inline parsing so the plugin finds it.
+ */
+function taskStatusRule(state: any) {
+  const tokens = state.tokens;
+  for (let i = 2; i < tokens.length; i++) {
+    if (tokens[i].type !== 'inline' || tokens[i - 1].type !== 'paragraph_open' || tokens[i - 2].type !== 'list_item_open') {
+      continue;
+    }
+    const match = STATUS_PATTERN.exec(tokens[i].content);
+    if (!match || !inBulletList(tokens, i - 2)) continue;
+
+    const status = match[1];
+    tokens[i - 2].attrSet('data-status', status);
+    tokens[i].content = `[${isChecked(status) ? 'x' : ' '}] ` + tokens[i].content.slice(match[0].length);
+  }
+}
 
 export const CustomTaskItem = TaskItem.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      // Character between the brackets as written, null until parsed or picked
+      status: {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: element => element.getAttribute('data-status'),
+        renderHTML: attributes => ({
+          'data-status': attributes.status,
+        }),
+      },
+    };
+  },
+
+  addCommands() {
+    return {
+      setTaskStatus: (status: string) => ({ commands }) => {
+        return commands.updateAttributes(this.name, { status, checked: isChecked(status) });
+      },
+      cycleTaskStatus: () => ({ editor, commands }) => {
+        if (!editor.isActive(this.name)) {
+          return false;
+        }
+        const { status, checked } = editor.getAttributes(this.name);
+        const current = status ?? (checked ? 'x' : ' ');
+        const index = TASK_STATUSES.findIndex(({ symbol }) => symbol === current.toLowerCase());
+        // Unknown statuses start over at to do
+        const next = TASK_STATUSES[(index + 1) % TASK_STATUSES.length].symbol;
+        return commands.setTaskStatus(next);
+      },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      ...this.parent?.(),
+      'Mod-l': () => this.editor.commands.cycleTaskStatus(),
+    };
+  },
+
+  addInputRules() {
+    return [
+      wrappingInputRule({
+        find: INPUT_PATTERN,
+        type: this.type,
+        getAttributes: match => {
+          const status = match[2] ?? ' ';
+          return { status, checked: isChecked(status) };
+        },
+      }),
+    ];
+  },
+
+  addNodeView() {
+    return ({ node: initialNode, getPos, editor }) => {
+      let node = initialNode;
+
+      const dom = document.createElement('li');
+      dom.dataset.type = this.name;
+      const label = dom.createEl('label');
+      label.contentEditable = 'false';
+      const checkbox = label.createEl('input', { type: 'checkbox', cls: 'task-list-item-checkbox' });
+      const contentDOM = dom.createDiv();
+
+      const currentStatus = () => node.attrs.status ?? (node.attrs.checked ? 'x' : ' ');
+
+      const setStatus = (status: string) => {
+        if (!editor.isEditable || typeof getPos !== 'function') return;
+        const pos = getPos();
+        if (pos === undefined) return;
+        editor.view.dispatch(editor.state.tr.setNodeMarkup(pos, undefined, { ...node.attrs, status, checked: isChecked(status) }));
+      };
+
+      const render = () => {
+        const status = currentStatus();
+        // Same attribute Obsidian puts on tasks, so themes with custom checkboxes style these too
+        dom.dataset.task = status;
+        checkbox.dataset.task = status;
+        dom.dataset.checked = String(isChecked(status));
+        checkbox.checked = isChecked(status);
+        checkbox.ariaLabel = TASK_STATUSES.find(({ symbol }) => symbol === status.toLowerCase())?.name ?? `Status "${status}"`;
+      };
+
+      checkbox.addEventListener('mousedown', event => event.preventDefault());
+      checkbox.addEventListener('click', (event) => {
+        event.preventDefault();
+        setStatus(toggledStatus(currentStatus()));
+      });
+
+      checkbox.addEventListener('contextmenu', (event) => {
+        if (!editor.isEditable) return;
+        event.preventDefault();
+        const menu = new Menu();
+        TASK_STATUSES.forEach(({ symbol, name }) => {
+          menu.addItem(item => item
+            .setTitle(`[${symbol}] ${name}`)
+            .setChecked(currentStatus().toLowerCase() === symbol)
+            .onClick(() => setStatus(symbol)));
+        });
+        menu.showAtMouseEvent(event);
+      });
+
+      render();
+
+      return {
+        dom,
+        contentDOM,
+        update: updatedNode => {
+          if (updatedNode.type !== node.type) return false;
+          node = updatedNode;
+          render();
+          return true;
+        },
+        ignoreMutation: mutation => !contentDOM.contains(mutation.target),
+      };
+    };
+  },
+
   addStorage() {
     return {
       markdown: {
         serialize(state: any, node: any) {
-          const checked = node.attrs.checked ? 'x' : ' ';
-          state.write(`[${checked}] `);
+          const status = node.attrs.status ?? (node.attrs.checked ? 'x' : ' ');
+          state.write(`[${status}] `);
           state.renderContent(node);
         },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.core.ruler.__find__('task_status') === -1) {
+              markdownit.core.ruler.before('inline', 'task_status', taskStatusRule);
+            }
+          },
+          updateDOM(element: HTMLElement) {
+            // Same as tiptap-markdown's, which a custom parse replaces
+            element.querySelectorAll('.task-list-item').forEach((item) => {
+              const input = item.querySelector('input');
+              item.setAttribute('data-type', 'taskItem');
+              if (input) {
+                item.setAttribute('data-checked', String(input.checked));
+                input.remove();
+              }
+            });
+          },
+        },
       },
     };
   },
-});
\ No newline at end of file
+});
@@ -1,11 +1,44 @@
-import TaskList from '@tiptap/extension-task-list';
+import TaskList, { TaskListOptions } from '@tiptap/extension-task-list';
+import type { WYSIWYGSettings } from '../../settings';
+import { listSyntaxAttributes, separateFromPreviousList } from './CustomBulletList';
+
+export interface CustomTaskListOptions extends TaskListOptions {
+  settings: WYSIWYGSettings;
+}
+
+export const CustomTaskList = TaskList.extend<CustomTaskListOptions>({
+  addOptions() {
+    return {
+      ...this.parent?.(),
+      settings: null as any,
+    };
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      // Recorded by the bullet list's parse rule, task lists are bullet lists in markdown-it
+      ...listSyntaxAttributes,
+      // Same as the tight attribute tiptap-markdown gives bullet and ordered lists
+      tight: {
+        default: true,
+        parseHTML: element => element.getAttribute('data-tight') === 'true' || !element.querySelector('p'),
+        renderHTML: attributes => ({
+          'data-tight': attributes.tight ? 'true' : null,
+        }),
+      },
+    };
+  },
 
-export const CustomTaskList = TaskList.extend({
   addStorage() {
     return {
       markdown: {
-        serialize(state: any, node: any) {
-          state.renderList(node, '  ', () => '* ');
+        serialize(this: { options: CustomTaskListOptions }, state: any, node: any) {
+          // Lists from the file keep their bullet, new ones use the setting
+          const defaultMarker = this.options.settings?.taskListMarker || '*';
+          const marker = node.attrs.marker || defaultMarker;
+          separateFromPreviousList(state, node, (state.closed?.attrs.marker || defaultMarker) !== marker);
+          state.renderList(node, node.attrs.indent || '  ', () => `${marker} `);
         },
       },
     };
@@ -0,0 +1,34 @@
+import Text from '@tiptap/extension-text';
+import { findMathOpeners } from './Math';
+
+export const CustomText = Text.extend({
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any, parent: any, index: number) {
+          // Same as tiptap-markdown, which leaves `<` and `>` to be read as text
+          const text = node.text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+          // Dollars that were escaped keep their backslash, any other that
+          // would start math when read back gets one
+          const escaped = node.marks.some((mark: any) => mark.type.name === 'dollarEscape');
+          const openers = escaped ? null : findMathOpeners(parent, index);
+          if (openers?.size === 0) {
+            state.text(text);
+            return;
+          }
+
+          const { esc } = state;
+          let ordinal = 0;
+          state.esc = (str: string, startOfLine?: boolean) => esc.call(state, str, startOfLine)
+            .replace(/\$/g, () => (!openers || openers.has(ordinal++) ? '\\$' : '$'));
+          state.text(text);
+          state.esc = esc;
+        },
+        parse: {
+          // handled by markdown-it
+        },
+      },
+    };
+  },
+});
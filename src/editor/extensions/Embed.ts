@@ -0,0 +1,247 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { Component, MarkdownRenderer, TFile, getFrontMatterInfo, resolveSubpath } from 'obsidian';
+import type { WYSIWYGView } from '../WYSIWYGView';
+import { getWikiLinkDisplayText, parseWikiLink } from './WikiLink';
+import { isImagePath } from './CustomImage';
+
+export interface EmbedOptions {
+  view: WYSIWYGView;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Transcluded note, `![[Note]]`, `![[Note#Heading]]` or `![[Note#^block]]`.
+ * The content is rendered read-only with Obsidian's markdown renderer.
+ */
+export const Embed = Node.create<EmbedOptions>({
+  name: 'embed',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addOptions() {
+    return {
+      view: null as any,
+    };
+  },
+
+  addAttributes() {
+    return {
+      path: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-path') ?? '',
+        renderHTML: () => ({}),
+      },
+      subpath: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-subpath') ?? '',
+        renderHTML: () => ({}),
+      },
+      alias: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-alias'),
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'span[data-embed]',
+        priority: 100,
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const { path, subpath, alias } = node.attrs;
+    const attrs: Record<string, string> = {
+      'data-embed': path + subpath,
+      'data-path': path,
+      'data-subpath': subpath,
+      class: 'wysiwyg-embed',
+    };
+    if (alias !== null) {
+      attrs['data-alias'] = alias;
+    }
+
+    return ['span', mergeAttributes(HTMLAttributes, attrs), getWikiLinkDisplayText(path, subpath)];
+  },
+
+  renderText({ node }) {
+    return `![[${node.attrs.path}${node.attrs.subpath}]]`;
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          const { path, subpath, alias } = node.attrs;
+          const target = path + subpath;
+          state.write(alias !== null ? `![[${target}|${alias}]]` : `![[${target}]]`);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.inline.ruler.__find__('embed') !== -1) {
+              return;
+            }
+
+            // Register inline rule with markdown-it to parse ![[embeds]]
+            // Runs before 'link' so the image rule and wikilinks don't see them
+            markdownit.inline.ruler.before('link', 'embed', function embed(state: any, silent: boolean) {
+              const start = state.pos;
+              const max = state.posMax;
+
+              // Check if we have ![[
+              if (state.src.charCodeAt(start) !== 0x21 /* ! */ ||
+                  state.src.charCodeAt(start + 1) !== 0x5B /* [ */ ||
+                  state.src.charCodeAt(start + 2) !== 0x5B /* [ */) {
+                return false;
+              }
+
+              // Find closing ]]
+              let pos = start + 3;
+              while (pos < max) {
+                if (state.src.charCodeAt(pos) === 0x5D /* ] */ &&
+                    state.src.charCodeAt(pos + 1) === 0x5D /* ] */) {
+                  break;
+                }
+                pos++;
+              }
+
+              if (pos >= max || pos === start + 3) {
+                return false;
+              }
+
+              const { path, subpath, alias } = parseWikiLink(state.src.slice(start + 3, pos));
+
+              if (!silent && isImagePath(path)) {
+                // Embedded images become image nodes that remember the embed syntax
+                const token = state.push('html_inline', '', 0);
+                const aliasAttr = alias !== null ? ` data-embed-alias="${escapeHtml(alias)}"` : '';
+                token.content = `<img src="${escapeHtml(path + subpath)}" data-src="${escapeHtml(path + subpath)}" data-embed-image${aliasAttr}>`;
+              } else if (!silent) {
+                const token = state.push('html_inline', '', 0);
+                const aliasAttr = alias !== null ? ` data-alias="${escapeHtml(alias)}"` : '';
+                token.content = `<span data-embed="${escapeHtml(path + subpath)}" data-path="${escapeHtml(path)}" ` +
+                  `data-subpath="${escapeHtml(subpath)}"${aliasAttr} class="wysiwyg-embed"></span>`;
+              }
+
+              state.pos = pos + 2;
+              return true;
+            });
+          },
+        },
+      },
+    };
+  },
+
+  addNodeView() {
+    const view = this.options.view;
+
+    return ({ node }) => {
+      const app = view.app;
+      const { path, subpath } = node.attrs;
+
+      const dom = document.createElement('span');
+      dom.className = 'wysiwyg-embed';
+      dom.contentEditable = 'false';
+      dom.dataset.embed = path + subpath;
+      dom.dataset.path = path;
+      dom.dataset.subpath = subpath;
+
+      const title = dom.createDiv({ cls: 'wysiwyg-embed-title', text: getWikiLinkDisplayText(path, subpath) });
+      title.setAttribute('aria-label', 'Open');
+      const content = dom.createDiv('wysiwyg-embed-content markdown-rendered');
+
+      let component: Component | null = null;
+      let renderId = 0;
+
+      const getFile = (): TFile | null => {
+        const sourcePath = view.file?.path || '';
+        return path ? app.metadataCache.getFirstLinkpathDest(path, sourcePath) : view.file;
+      };
+
+      const render = async () => {
+        const id = ++renderId;
+        const file = getFile();
+
+        if (!file) {
+          dom.addClass('is-unresolved');
+          content.empty();
+          content.createDiv({ cls: 'wysiwyg-embed-empty', text: `"${path}" could not be found.` });
+          return;
+        }
+        dom.removeClass('is-unresolved');
+
+        if (file.extension !== 'md') {
+          content.empty();
+          content.createDiv({ cls: 'wysiwyg-embed-empty', text: file.name });
+          return;
+        }
+
+        let markdown = await app.vault.cachedRead(file);
+        if (subpath) {
+          const cache = app.metadataCache.getFileCache(file);
+          const section = cache ? resolveSubpath(cache, subpath) : null;
+          if (!section) {
+            markdown = '';
+          } else {
+            markdown = markdown.slice(section.start.offset, section.end?.offset ?? markdown.length);
+          }
+        } else {
+          markdown = markdown.slice(getFrontMatterInfo(markdown).contentStart);
+        }
+
+        // A newer render started while this one was reading the file
+        if (id !== renderId) return;
+
+        component?.unload();
+        component = new Component();
+        component.load();
+        content.empty();
+
+        if (!markdown.trim()) {
+          content.createDiv({ cls: 'wysiwyg-embed-empty', text: subpath ? `"${subpath.slice(1)}" could not be found in ${file.basename}.` : 'Empty note' });
+          return;
+        }
+
+        await MarkdownRenderer.render(app, markdown, content, file.path, component);
+      };
+
+      // The cache is updated after the file is written, so section offsets are current
+      const changedRef = app.metadataCache.on('changed', (file) => {
+        if (file === getFile()) {
+          render();
+        }
+      });
+
+      render();
+
+      return {
+        dom,
+        // The rendered content changes on its own, it's not part of the document
+        ignoreMutation: () => true,
+        destroy: () => {
+          renderId++;
+          component?.unload();
+          app.metadataCache.offref(changedRef);
+        },
+      };
+    };
+  },
+});
@@ -86,7 +86,11 @@ export const FileMention = Node.create<FileMentionOptions>({
     return {
       markdown: {
         serialize(state: any, node: any) {
-          state.write(`[[${node.attrs.label}]]`);
+          // `id` is the vault path picked from the suggestions, write it out in
+          // full so duplicate names and later renames still resolve
+          const { id, label } = node.attrs;
+          const path = (id || label).replace(/\.md$/, '');
+          state.write(path === label ? `[[${path}]]` : `[[${path}|${label}]]`);
         },
         parse: {
           setup(markdownit: any) {
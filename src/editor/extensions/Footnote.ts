@@ -0,0 +1,404 @@
+import { Node, Extension } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, TextSelection } from '@tiptap/pm/state';
+import type { EditorView } from '@tiptap/pm/view';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    footnote: {
+      insertFootnote: () => ReturnType;
+    };
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Footnote labels can't contain spaces or brackets
+const LABEL_PATTERN = /^\[\^([^\s\]]+)\]/;
+
+interface FootnoteInfo {
+  // Number shown for each label in reading order, inline footnotes are numbered by position
+  numbers: Map<string, number>;
+  inlineNumbers: Map<number, number>;
+  definitions: Map<string, { pos: number; node: ProseMirrorNode }>;
+  references: Map<string, number>;
+}
+
+function collectFootnotes(doc: ProseMirrorNode): FootnoteInfo {
+  const info: FootnoteInfo = { numbers: new Map(), inlineNumbers: new Map(), definitions: new Map(), references: new Map() };
+  let next = 1;
+
+  doc.descendants((node, pos) => {
+    if (node.type.name === 'footnoteReference') {
+      const { label } = node.attrs;
+      if (label === null) {
+        info.inlineNumbers.set(pos, next++);
+      } else if (!info.numbers.has(label)) {
+        info.numbers.set(label, next++);
+        info.references.set(label, pos);
+      }
+    } else if (node.type.name === 'footnoteDefinition' && !info.definitions.has(node.attrs.label)) {
+      info.definitions.set(node.attrs.label, { pos, node });
+    }
+  });
+
+  return info;
+}
+
+/**
+ * Footnote reference, `[^label]`, or an inline footnote, `^[text]`, when
+ * `label` is null.
+ */
+export const FootnoteReference = Node.create({
+  name: 'footnoteReference',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addAttributes() {
+    return {
+      label: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-label'),
+        renderHTML: () => ({}),
+      },
+      // Markdown of an inline footnote
+      content: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-content'),
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'sup[data-footnote-ref]',
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    const { label, content } = node.attrs;
+    const attrs: Record<string, string> = { 'data-footnote-ref': '', class: 'footnote-ref' };
+    if (label !== null) attrs['data-label'] = label;
+    if (content !== null) attrs['data-content'] = content;
+    return ['sup', attrs];
+  },
+
+  renderText({ node }) {
+    return node.attrs.label !== null ? `[^${node.attrs.label}]` : `^[${node.attrs.content ?? ''}]`;
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          const { label, content } = node.attrs;
+          state.write(label !== null ? `[^${label}]` : `^[${content ?? ''}]`);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rules must only be added once
+            if (markdownit.inline.ruler.__find__('footnote_ref') !== -1) {
+              return;
+            }
+
+            // Register inline rules with markdown-it to parse [^label] and ^[inline footnotes]
+            // Runs before 'link' so [^label] isn't read as a reference link
+            markdownit.inline.ruler.before('link', 'footnote_ref', function footnoteRef(state: any, silent: boolean) {
+              const start = state.pos;
+
+              if (state.src.charCodeAt(start) !== 0x5B /* [ */ || state.src.charCodeAt(start + 1) !== 0x5E /* ^ */) {
+                return false;
+              }
+
+              const match = LABEL_PATTERN.exec(state.src.slice(start, state.posMax));
+              if (!match) {
+                return false;
+              }
+
+              if (!silent) {
+                const token = state.push('html_inline', '', 0);
+                token.content = `<sup data-footnote-ref data-label="${escapeHtml(match[1])}" class="footnote-ref"></sup>`;
+              }
+
+              state.pos = start + match[0].length;
+              return true;
+            });
+
+            markdownit.inline.ruler.before('link', 'footnote_inline', function footnoteInline(state: any, silent: boolean) {
+              const start = state.pos;
+
+              if (state.src.charCodeAt(start) !== 0x5E /* ^ */ || state.src.charCodeAt(start + 1) !== 0x5B /* [ */) {
+                return false;
+              }
+
+              const labelEnd = state.md.helpers.parseLinkLabel(state, start + 1);
+              if (labelEnd < 0) {
+                return false;
+              }
+
+              if (!silent) {
+                const content = state.src.slice(start + 2, labelEnd);
+                const token = state.push('html_inline', '', 0);
+                token.content = `<sup data-footnote-ref data-content="${escapeHtml(content)}" class="footnote-ref"></sup>`;
+              }
+
+              state.pos = labelEnd + 1;
+              return true;
+            });
+          },
+        },
+      },
+    };
+  },
+});
+
+/**
+ * Footnote definition, `[^label]: text`. Lines indented by four spaces
+ * after it belong to the same footnote.
+ */
+export const FootnoteDefinition = Node.create({
+  name: 'footnoteDefinition',
+
+  group: 'block',
+
+  content: 'block+',
+
+  defining: true,
+
+  addAttributes() {
+    return {
+      label: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-label') ?? '',
+        renderHTML: attributes => ({ 'data-label': attributes.label }),
+      },
+      // Follows the previous definition without a blank line
+      tight: {
+        default: true,
+        parseHTML: element => element.hasAttribute('data-tight'),
+        renderHTML: attributes => (attributes.tight ? { 'data-tight': '' } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-footnote-definition]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', { ...HTMLAttributes, 'data-footnote-definition': '', class: 'footnote-definition' }, 0];
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any, parent: any, index: number) {
+          // Keep runs of definitions on consecutive lines
+          if (node.attrs.tight && index > 0 && parent.child(index - 1).type === node.type) {
+            state.flushClose(1);
+          }
+
+          state.wrapBlock('    ', `[^${node.attrs.label}]: `, node, () => state.renderContent(node));
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.block.ruler.__find__('footnote_def') !== -1) {
+              return;
+            }
+
+            // Register block rule with markdown-it to parse [^label]: definitions
+            // Works like markdown-it-footnote, the content is parsed as blocks indented by four spaces
+            markdownit.block.ruler.before('reference', 'footnote_def', function footnoteDef(state: any, startLine: number, endLine: number, silent: boolean) {
+              const start = state.bMarks[startLine] + state.tShift[startLine];
+              const max = state.eMarks[startLine];
+
+              const match = LABEL_PATTERN.exec(state.src.slice(start, max));
+              if (!match || state.src.charCodeAt(start + match[0].length) !== 0x3A /* : */) {
+                return false;
+              }
+
+              if (silent) {
+                return true;
+              }
+
+              const tight = startLine > 0 && !state.isEmpty(startLine - 1);
+              const open = state.push('html_block', '', 0);
+              open.content = `<div data-footnote-definition data-label="${escapeHtml(match[1])}"${tight ? ' data-tight' : ''}>\n`;
+
+              const oldBMark = state.bMarks[startLine];
+              const oldTShift = state.tShift[startLine];
+              const oldSCount = state.sCount[startLine];
+              const oldParentType = state.parentType;
+
+              // Skip the label and the spaces after it on the first line
+              let pos = start + match[0].length + 1;
+              const posAfterColon = pos;
+              const initial = state.sCount[startLine] + pos - start;
+              let offset = initial;
+              while (pos < max) {
+                const ch = state.src.charCodeAt(pos);
+                if (ch === 0x09 /* tab */) {
+                  offset += 4 - (offset % 4);
+                } else if (ch === 0x20 /* space */) {
+                  offset++;
+                } else {
+                  break;
+                }
+                pos++;
+              }
+
+              state.tShift[startLine] = pos - posAfterColon;
+              state.sCount[startLine] = offset - initial;
+              state.bMarks[startLine] = posAfterColon;
+              state.blkIndent += 4;
+              state.parentType = 'footnote';
+
+              if (state.sCount[startLine] < state.blkIndent) {
+                state.sCount[startLine] += state.blkIndent;
+              }
+
+              state.md.block.tokenize(state, startLine, endLine);
+
+              state.parentType = oldParentType;
+              state.blkIndent -= 4;
+              state.tShift[startLine] = oldTShift;
+              state.sCount[startLine] = oldSCount;
+              state.bMarks[startLine] = oldBMark;
+
+              const close = state.push('html_block', '', 0);
+              close.content = '</div>\n';
+              return true;
+            }, { alt: ['paragraph', 'reference'] });
+          },
+        },
+      },
+    };
+  },
+});
+
+const footnotesKey = new PluginKey<DecorationSet>('footnotes');
+
+function buildDecorations(doc: ProseMirrorNode): DecorationSet {
+  const info = collectFootnotes(doc);
+  const decorations: Decoration[] = [];
+
+  doc.descendants((node, pos) => {
+    if (node.type.name === 'footnoteReference') {
+      const { label, content } = node.attrs;
+      const number = label === null ? info.inlineNumbers.get(pos) : info.numbers.get(label);
+      const definition = label !== null ? info.definitions.get(label) : null;
+      // Shown in Obsidian's tooltip on hover
+      const text = label === null ? content : definition?.node.textContent;
+
+      decorations.push(Decoration.node(pos, pos + node.nodeSize, {
+        'data-number': String(number ?? '?'),
+        'aria-label': text || 'Footnote has no definition',
+        class: label !== null && !definition ? 'is-unresolved' : '',
+      }));
+    } else if (node.type.name === 'footnoteDefinition') {
+      const number = info.numbers.get(node.attrs.label);
+      decorations.push(Decoration.node(pos, pos + node.nodeSize, {
+        'data-number': number !== undefined ? String(number) : node.attrs.label,
+      }));
+    }
+  });
+
+  return DecorationSet.create(doc, decorations);
+}
+
+// Put the cursor at `pos` and bring it into view
+function jumpTo(view: EditorView, pos: number) {
+  const selection = TextSelection.near(view.state.doc.resolve(pos));
+  view.dispatch(view.state.tr.setSelection(selection).scrollIntoView());
+  view.focus();
+}
+
+/**
+ * Numbers footnotes in reading order and moves between a reference and its
+ * definition on click.
+ */
+export const Footnotes = Extension.create({
+  name: 'footnotes',
+
+  addCommands() {
+    return {
+      // A new numbered reference at the cursor and its definition at the end of the note
+      insertFootnote: () => ({ state, tr, dispatch }) => {
+        const { schema, doc } = state;
+        const { numbers, definitions } = collectFootnotes(doc);
+
+        let number = 1;
+        while (numbers.has(String(number)) || definitions.has(String(number))) number++;
+        const label = String(number);
+
+        if (dispatch) {
+          tr.replaceSelectionWith(schema.nodes.footnoteReference.create({ label }), false);
+          const definition = schema.nodes.footnoteDefinition.create({ label }, schema.nodes.paragraph.create());
+          const end = tr.doc.content.size;
+          tr.insert(end, definition);
+          tr.setSelection(TextSelection.near(tr.doc.resolve(end + 2)));
+          tr.scrollIntoView();
+        }
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: footnotesKey,
+        state: {
+          init: (_, state) => buildDecorations(state.doc),
+          apply: (tr, decorations) => (tr.docChanged ? buildDecorations(tr.doc) : decorations),
+        },
+        props: {
+          decorations: state => footnotesKey.getState(state),
+          handleClickOn: (view, _pos, node, nodePos, event) => {
+            const info = collectFootnotes(view.state.doc);
+
+            if (node.type.name === 'footnoteReference' && node.attrs.label !== null) {
+              const definition = info.definitions.get(node.attrs.label);
+              if (definition) {
+                jumpTo(view, definition.pos + 1);
+                return true;
+              }
+            }
+
+            // The number in front of a definition leads back to the reference
+            if (node.type.name === 'footnoteDefinition' && (event.target as HTMLElement).hasAttribute('data-footnote-definition')) {
+              const reference = info.references.get(node.attrs.label);
+              if (reference !== undefined) {
+                jumpTo(view, reference + 1);
+                return true;
+              }
+            }
+
+            return false;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,185 @@
+import { Mark, markInputRule, markPasteRule, mergeAttributes } from '@tiptap/core';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    highlight: {
+      toggleHighlight: () => ReturnType;
+    };
+  }
+}
+
+const INPUT_PATTERN = /(?:^|\s)(==(?!\s+==)((?:[^=]+))==(?!\s+==))$/;
+const PASTE_PATTERN = /(?:^|\s)(==(?!\s+==)((?:[^=]+))==(?!\s+==))/g;
+
+// Same as markdown-it's ~~strikethrough~~ rule, with `=` as the marker
+function highlightTokenize(state: any, silent: boolean): boolean {
+  const start = state.pos;
+  const marker = state.src.charCodeAt(start);
+
+  if (silent || marker !== 0x3D /* = */) {
+    return false;
+  }
+
+  const scanned = state.scanDelims(state.pos, true);
+  let len = scanned.length;
+
+  if (len < 2) {
+    return false;
+  }
+
+  if (len % 2) {
+    const token = state.push('text', '', 0);
+    token.content = '=';
+    len--;
+  }
+
+  for (let i = 0; i < len; i += 2) {
+    const token = state.push('text', '', 0);
+    token.content = '==';
+
+    state.delimiters.push({
+      marker,
+      length: 0,
+      token: state.tokens.length - 1,
+      end: -1,
+      open: scanned.can_open,
+      close: scanned.can_close,
+    });
+  }
+
+  state.pos += scanned.length;
+  return true;
+}
+
+function postProcess(state: any, delimiters: any[]) {
+  const loneMarkers: number[] = [];
+
+  for (const startDelim of delimiters) {
+    if (startDelim.marker !== 0x3D /* = */ || startDelim.end === -1) {
+      continue;
+    }
+
+    const endDelim = delimiters[startDelim.end];
+
+    const open = state.tokens[startDelim.token];
+    open.type = 'mark_open';
+    open.tag = 'mark';
+    open.nesting = 1;
+    open.markup = '==';
+    open.content = '';
+
+    const close = state.tokens[endDelim.token];
+    close.type = 'mark_close';
+    close.tag = 'mark';
+    close.nesting = -1;
+    close.markup = '==';
+    close.content = '';
+
+    if (state.tokens[endDelim.token - 1].type === 'text' && state.tokens[endDelim.token - 1].content === '=') {
+      loneMarkers.push(endDelim.token - 1);
+    }
+  }
+
+  // `===` leaves a single `=` before the mark, move it after the closing tags
+  while (loneMarkers.length) {
+    const i = loneMarkers.pop()!;
+    let j = i + 1;
+
+    while (j < state.tokens.length && state.tokens[j].type === 'mark_close') {
+      j++;
+    }
+    j--;
+
+    if (i !== j) {
+      const token = state.tokens[j];
+      state.tokens[j] = state.tokens[i];
+      state.tokens[i] = token;
+    }
+  }
+}
+
+function highlightPostProcess(state: any) {
+  postProcess(state, state.delimiters);
+
+  state.tokens_meta.forEach((meta: any) => {
+    if (meta?.delimiters) {
+      postProcess(state, meta.delimiters);
+    }
+  });
+}
+
+// Obsidian highlight, ==text==
+export const Highlight = Mark.create({
+  name: 'highlight',
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  parseHTML() {
+    return [
+      { tag: 'mark' },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['mark', mergeAttributes(this.options.HTMLAttributes, HTMLAttributes), 0];
+  },
+
+  addCommands() {
+    return {
+      toggleHighlight: () => ({ commands }) => {
+        return commands.toggleMark(this.name);
+      },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Mod-Shift-h': () => this.editor.commands.toggleHighlight(),
+    };
+  },
+
+  addInputRules() {
+    return [
+      markInputRule({
+        find: INPUT_PATTERN,
+        type: this.type,
+      }),
+    ];
+  },
+
+  addPasteRules() {
+    return [
+      markPasteRule({
+        find: PASTE_PATTERN,
+        type: this.type,
+      }),
+    ];
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize: {
+          open: '==',
+          close: '==',
+          mixable: true,
+          expelEnclosingWhitespace: true,
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the post-processing must only run once
+            if (markdownit.inline.ruler.__find__('highlight') !== -1) {
+              return;
+            }
+            markdownit.inline.ruler.before('emphasis', 'highlight', highlightTokenize);
+            markdownit.inline.ruler2.before('emphasis', 'highlight', highlightPostProcess);
+          },
+        },
+      },
+    };
+  },
+});
@@ -0,0 +1,487 @@
+import { InputRule, Mark, Node } from '@tiptap/core';
+import type { Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { finishRenderMath, loadMathJax, renderMath } from 'obsidian';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// `$x$` typed in a paragraph, not `$ x$` or `$x $` so prices stay text
+const INLINE_MATH_INPUT_PATTERN = /(?:^|[^$\\])(\$([^$\s](?:[^$]*[^$\s])?)\$)$/;
+
+let mathJaxLoaded: Promise<void> | null = null;
+
+async function renderLatex(latex: string, display: boolean, el: HTMLElement) {
+  mathJaxLoaded ??= loadMathJax();
+  await mathJaxLoaded;
+
+  el.empty();
+  if (!latex.trim()) {
+    el.createSpan({ cls: 'wysiwyg-math-empty', text: display ? 'Empty math block' : 'Empty math' });
+    return;
+  }
+  el.appendChild(renderMath(latex.trim(), display));
+  await finishRenderMath();
+}
+
+/**
+ * Rendered math that turns into a text box with live preview when clicked.
+ * The source is saved with the whitespace it had around it in the file.
+ */
+function createMathView(node: ProseMirrorNode, getPos: (() => number | undefined) | boolean, editor: Editor, display: boolean) {
+  let currentNode = node;
+
+  const dom = document.createElement(display ? 'div' : 'span');
+  dom.className = display ? 'wysiwyg-math wysiwyg-math-block' : 'wysiwyg-math';
+  dom.contentEditable = 'false';
+
+  const preview = dom.createSpan({ cls: 'wysiwyg-math-preview' });
+  let input: HTMLTextAreaElement | null = null;
+
+  const getNodePos = (): number | undefined => (typeof getPos === 'function' ? getPos() : undefined);
+
+  const close = (commit: boolean) => {
+    if (!input) return;
+    const source = input.value;
+    input.remove();
+    input = null;
+    dom.removeClass('is-editing');
+
+    const pos = getNodePos();
+    if (pos === undefined) return;
+
+    const latex: string = currentNode.attrs.latex;
+    if (!commit && latex.trim()) {
+      renderLatex(latex, display, preview);
+    } else if (!commit || !source.trim()) {
+      // Emptied math, or new math cancelled before it had any source, is removed
+      editor.chain().focus().deleteRange({ from: pos, to: pos + currentNode.nodeSize }).run();
+      return;
+    } else if (source !== latex.trim()) {
+      // Keep the newlines or spaces the source had inside the dollar signs
+      const before = latex ? /^\s*/.exec(latex)![0] : (display ? '\n' : '');
+      const after = latex ? /\s*$/.exec(latex)![0] : (display ? '\n' : '');
+      editor.view.dispatch(editor.state.tr.setNodeMarkup(pos, undefined, {
+        ...currentNode.attrs,
+        latex: before + source + after,
+      }));
+    }
+
+    editor.chain().focus().setTextSelection(pos + currentNode.nodeSize).run();
+  };
+
+  const open = () => {
+    if (input || !editor.isEditable) return;
+
+    dom.addClass('is-editing');
+    input = createEl('textarea', { cls: 'wysiwyg-math-source' });
+    input.value = currentNode.attrs.latex.trim();
+    input.rows = display ? Math.max(2, input.value.split('\n').length) : 1;
+    input.spellcheck = false;
+    dom.insertBefore(input, display ? preview : null);
+
+    input.addEventListener('input', () => {
+      if (!input) return;
+      if (display) input.rows = Math.max(2, input.value.split('\n').length);
+      renderLatex(input.value, display, preview);
+    });
+
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') {
+        // Back to the LaTeX from before the edit
+        event.preventDefault();
+        close(false);
+      } else if (event.key === 'Enter' && (!display || event.metaKey || event.ctrlKey)) {
+        // Inline math is one line, block math takes Mod-Enter to finish
+        event.preventDefault();
+        close(true);
+      }
+    });
+
+    input.addEventListener('blur', () => close(true));
+    input.focus();
+  };
+
+  dom.addEventListener('click', (event) => {
+    if (input && input.contains(event.target as HTMLElement)) return;
+    open();
+  });
+
+  renderLatex(currentNode.attrs.latex, display, preview);
+
+  // Newly inserted math has no source yet, start in edit mode
+  if (!currentNode.attrs.latex.trim()) {
+    setTimeout(open);
+  }
+
+  return {
+    dom,
+    update: (updatedNode: ProseMirrorNode) => {
+      if (updatedNode.type !== currentNode.type) return false;
+      const changed = updatedNode.attrs.latex !== currentNode.attrs.latex;
+      currentNode = updatedNode;
+      if (changed && !input) {
+        renderLatex(currentNode.attrs.latex, display, preview);
+      }
+      return true;
+    },
+    // The text box handles its own keys and clicks
+    stopEvent: (event: Event) => !!input && input.contains(event.target as HTMLElement),
+    ignoreMutation: () => true,
+    destroy: () => {
+      input?.remove();
+      input = null;
+    },
+  };
+}
+
+/**
+ * Where the `$` or `$$` closing inline math that opens at start is, -1 if
+ * nothing opens there. `$ x$` is not math, `$$ x $$` is.
+ */
+function findInlineMathEnd(src: string, start: number, max: number): number {
+  if (src.charCodeAt(start) !== 0x24 /* $ */) {
+    return -1;
+  }
+
+  const display = src.charCodeAt(start + 1) === 0x24;
+  const delimiter = display ? '$$' : '$';
+  const contentStart = start + delimiter.length;
+
+  if (!display && /\s/.test(src[contentStart] ?? ' ')) {
+    return -1;
+  }
+
+  let end = contentStart;
+  for (;;) {
+    end = src.indexOf(delimiter, end);
+    if (end === -1 || end >= max) return -1;
+    if (src[end - 1] === '\\') {
+      end++;
+      continue;
+    }
+    // Closing $ can't follow a space or be followed by a digit, `$5 and $6` is text
+    if (!display && (/\s/.test(src[end - 1]) || /\d/.test(src[end + 1] ?? ''))) {
+      end++;
+      continue;
+    }
+    break;
+  }
+
+  return end === contentStart ? -1 : end;
+}
+
+/**
+ * The `$` in the text node at index in parent that would open inline math
+ * when the note is read back, by their order in the node. Written as `\$`
+ * they stay text, the way they were when they came from an escaped `\$`.
+ */
+export function findMathOpeners(parent: ProseMirrorNode, index: number): Set<number> {
+  // The textblock's text, with any other inline node, backslashes and escaped
+  // dollars, which are all written escaped, as a character that isn't a space
+  let text = '';
+  let offset = 0;
+  parent.forEach((child, _offset, childIndex) => {
+    if (childIndex === index) offset = text.length;
+    const escaped = child.marks.some(mark => mark.type.name === 'dollarEscape') ? /[\\$]/g : /\\/g;
+    text += child.isText ? child.textContent.replace(escaped, '\ufffc') : '\ufffc';
+  });
+
+  const openers = new Set<number>();
+  const node = parent.child(index);
+  let ordinal = 0;
+  for (let i = 0; i < node.nodeSize; i++) {
+    if (text[offset + i] !== '$') continue;
+    if (findInlineMathEnd(text, offset + i, text.length) !== -1) openers.add(ordinal);
+    ordinal++;
+  }
+  return openers;
+}
+
+/**
+ * Inline math, `$x^2$`, or display math written inside a paragraph, `$$x^2$$`.
+ */
+export const MathInline = Node.create({
+  name: 'mathInline',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addAttributes() {
+    return {
+      latex: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-latex') ?? '',
+        renderHTML: () => ({}),
+      },
+      // Written with $$ instead of $
+      display: {
+        default: false,
+        parseHTML: element => element.hasAttribute('data-display'),
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'span[data-math-inline]',
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    const attrs: Record<string, string> = { 'data-math-inline': '', 'data-latex': node.attrs.latex };
+    if (node.attrs.display) attrs['data-display'] = '';
+    return ['span', attrs, node.attrs.latex];
+  },
+
+  renderText({ node }) {
+    const delimiter = node.attrs.display ? '$$' : '$';
+    return delimiter + node.attrs.latex + delimiter;
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          // Written as is, the LaTeX must not get markdown escapes
+          const delimiter = node.attrs.display ? '$$' : '$';
+          state.write(delimiter + node.attrs.latex + delimiter);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.inline.ruler.__find__('math_inline') !== -1) {
+              return;
+            }
+
+            // Register inline rule with markdown-it to parse $math$ and $$math$$
+            // Runs after 'backticks' so `$code$` stays code
+            markdownit.inline.ruler.after('backticks', 'math_inline', function mathInline(state: any, silent: boolean) {
+              const start = state.pos;
+              const src: string = state.src;
+              const end = findInlineMathEnd(src, start, state.posMax);
+              if (end === -1) {
+                return false;
+              }
+
+              const display = src.charCodeAt(start + 1) === 0x24;
+              const delimiter = display ? '$$' : '$';
+              const contentStart = start + delimiter.length;
+
+              if (!silent) {
+                const latex = src.slice(contentStart, end);
+                const token = state.push('html_inline', '', 0);
+                token.content = `<span data-math-inline data-latex="${escapeHtml(latex)}"${display ? ' data-display' : ''}></span>`;
+              }
+
+              state.pos = end + delimiter.length;
+              return true;
+            });
+          },
+        },
+      },
+    };
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor }) => createMathView(node, getPos, editor, node.attrs.display);
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: INLINE_MATH_INPUT_PATTERN,
+        handler: ({ state, range, match }) => {
+          const start = range.from + match[0].indexOf(match[1]);
+          state.tr.replaceWith(start, range.to, this.type.create({ latex: match[2] }));
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * Math block, `$$` on its own line(s).
+ */
+export const MathBlock = Node.create({
+  name: 'mathBlock',
+
+  group: 'block',
+
+  atom: true,
+
+  selectable: true,
+
+  addAttributes() {
+    return {
+      // Everything between the $$, newlines included
+      latex: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-latex') ?? '',
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-math-block]',
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    return ['div', { 'data-math-block': '', 'data-latex': node.attrs.latex }, node.attrs.latex];
+  },
+
+  renderText({ node }) {
+    return `$$${node.attrs.latex}$$`;
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          // Lines are written one by one so quotes and lists prefix each of them
+          const lines = `$$${node.attrs.latex}$$`.split('\n');
+          lines.forEach((line, i) => {
+            if (i > 0) state.ensureNewLine();
+            state.write(line);
+          });
+          state.closeBlock(node);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.block.ruler.__find__('math_block') !== -1) {
+              return;
+            }
+
+            // Register block rule with markdown-it to parse $$ blocks
+            markdownit.block.ruler.before('fence', 'math_block', function mathBlock(state: any, startLine: number, endLine: number, silent: boolean) {
+              const start = state.bMarks[startLine] + state.tShift[startLine];
+              const max = state.eMarks[startLine];
+
+              // Indented code
+              if (state.sCount[startLine] - state.blkIndent >= 4) {
+                return false;
+              }
+
+              if (state.src.slice(start, start + 2) !== '$$') {
+                return false;
+              }
+
+              const firstLine: string = state.src.slice(start + 2, max);
+              let latex: string;
+              let nextLine = startLine + 1;
+
+              if (firstLine.trimEnd().length >= 2 && firstLine.trimEnd().endsWith('$$')) {
+                // $$ x $$ on one line
+                latex = firstLine.trimEnd().slice(0, -2);
+              } else {
+                const lines = [firstLine];
+                let closed = false;
+
+                for (; nextLine < endLine; nextLine++) {
+                  // A line less indented than the block ends it, like the end of a list item
+                  if (state.sCount[nextLine] < state.blkIndent && state.bMarks[nextLine] + state.tShift[nextLine] < state.eMarks[nextLine]) {
+                    break;
+                  }
+
+                  const line: string = state.getLines(nextLine, nextLine + 1, state.blkIndent, false);
+                  if (line.trimEnd().endsWith('$$')) {
+                    lines.push(line.trimEnd().slice(0, -2));
+                    closed = true;
+                    nextLine++;
+                    break;
+                  }
+                  lines.push(line);
+                }
+
+                if (!closed) {
+                  return false;
+                }
+                latex = lines.join('\n');
+              }
+
+              if (silent) {
+                return true;
+              }
+
+              const token = state.push('html_block', '', 0);
+              token.content = `<div data-math-block data-latex="${escapeHtml(latex)}"></div>\n`;
+              token.map = [startLine, nextLine];
+              state.line = nextLine;
+              return true;
+            }, { alt: ['paragraph', 'reference', 'blockquote', 'list'] });
+          },
+        },
+      },
+    };
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor }) => createMathView(node, getPos, editor, true);
+  },
+});
+
+/**
+ * A `$` the note escaped as `\$`. Marked so the backslash is written back
+ * even where a bare `$` wouldn't be read as math, like `\$5 and \$6`.
+ */
+export const DollarEscape = Mark.create({
+  name: 'dollarEscape',
+
+  inclusive: false,
+
+  parseHTML() {
+    return [{ tag: 'span[data-dollar-escape]' }];
+  },
+
+  renderHTML() {
+    return ['span', { 'data-dollar-escape': '' }, 0];
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        // The backslashes are written by CustomText, in front of every `$` the mark covers
+        serialize: { open: '', close: '' },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.core.ruler.__find__('dollar_escape') !== -1) {
+              return;
+            }
+
+            // Before markdown-it joins escapes into the text around them
+            markdownit.core.ruler.before('text_join', 'dollar_escape', function dollarEscape(state: any) {
+              state.tokens.forEach((token: any) => {
+                token.children?.forEach((child: any) => {
+                  if (child.type === 'text_special' && child.markup === '\\$') {
+                    child.type = 'html_inline';
+                    child.content = '<span data-dollar-escape>$</span>';
+                  }
+                });
+              });
+            });
+          },
+        },
+      },
+    };
+  },
+});
@@ -1,7 +1,9 @@
 import { Extension } from '@tiptap/core';
 import { Plugin, PluginKey } from '@tiptap/pm/state';
-import { Vault, TFile } from 'obsidian';
+import type { EditorView } from '@tiptap/pm/view';
+import { Notice, Vault, TFile, normalizePath } from 'obsidian';
 import type { WYSIWYGView } from '../WYSIWYGView';
+import { parseWikiLink } from './WikiLink';
 
 export interface PasteHandlerOptions {
   vault: Vault;
@@ -35,7 +37,7 @@ export const PasteHandler = Extension.create<PasteHandlerOptions>({
                 if (item.type.startsWith('image/')) {
                   const file = item.getAsFile();
                   if (file) {
-                    handleImagePaste(file, editorView, vault);
+                    handleImagePaste(file, editorView, view);
                     return true;
                   }
                 }
@@ -65,15 +67,9 @@ export const PasteHandler = Extension.create<PasteHandlerOptions>({
               }
             } else {
               // Check if pasted text is a wikilink
-              const wikiMatch = text.match(/^\[\[([^\]|]+)(?:\|([^\]]+))?\]\]$/);
+              const wikiMatch = text.match(/^\[\[([^[\]]+)\]\]$/);
               if (wikiMatch) {
-                const href = wikiMatch[1];
-                const alias = wikiMatch[2] || href;
-
-                const node = editorView.state.schema.nodes.wikilink?.create({
-                  href,
-                  alias,
-                });
+                const node = editorView.state.schema.nodes.wikilink?.create(parseWikiLink(wikiMatch[1]));
 
                 if (node) {
                   const tr = editorView.state.tr.replaceSelectionWith(node);
@@ -104,37 +100,79 @@ export const PasteHandler = Extension.create<PasteHandlerOptions>({
   },
 });
 
-async function handleImagePaste(
-  file: File,
-  view: any,
-  vault: Vault
-) {
+// File extensions for pasted image types, anything else keeps the clipboard file's own
+const IMAGE_MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+  'image/avif': 'avif',
+};
+
+async function handleImagePaste(file: File, editorView: EditorView, view: WYSIWYGView) {
+  const { app } = view;
+  const settings = view.plugin.settings;
+  const sourcePath = view.file?.path || '';
+
   try {
-    // Create attachments folder if it doesn't exist
-    const attachmentsFolder = 'attachments';
-    if (!vault.getAbstractFileByPath(attachmentsFolder)) {
-      await vault.createFolder(attachmentsFolder);
-    }
+    const extension = IMAGE_MIME_EXTENSIONS[file.type] ||
+      file.name.split('.').pop()?.toLowerCase() ||
+      'png';
 
     // Generate filename
-    const fileName = `pasted-${Date.now()}.png`;
-    const filePath = `${attachmentsFolder}/${fileName}`;
+    const baseName = settings.pastedImageName
+      .replace(/\{\{timestamp\}\}/g, String(Date.now()))
+      .replace(/\{\{note\}\}/g, view.file?.basename || '')
+      .replace(/[\\/:*?"<>|#^[\]]/g, '-');
+
+    let filePath: string;
+    const attachmentsFolder = settings.attachmentFolder;
+    if (attachmentsFolder) {
+      // Create attachments folder if it doesn't exist
+      if (!app.vault.getAbstractFileByPath(attachmentsFolder)) {
+        await app.vault.createFolder(attachmentsFolder);
+      }
+      filePath = getAvailablePath(app.vault, `${attachmentsFolder}/${baseName}`, extension);
+    } else {
+      // Follow Obsidian's "Default location for new attachments"
+      filePath = await app.fileManager.getAvailablePathForAttachment(`${baseName}.${extension}`, sourcePath);
+    }
 
     // Save file to vault
     const buffer = await file.arrayBuffer();
-    await vault.createBinary(filePath, buffer);
+    const created = await app.vault.createBinary(filePath, buffer);
+
+    // Link it the way Obsidian would, honouring "Use [[Wikilinks]]" and the link format
+    const link = app.fileManager.generateMarkdownLink(created, sourcePath).replace(/^!/, '');
+    const wikiMatch = link.match(/^\[\[(.*)\]\]$/);
+    const markdownMatch = link.match(/^\[(.*)\]\((.*)\)$/);
+
+    const attrs = wikiMatch
+      ? { src: parseWikiLink(wikiMatch[1]).path, embed: true }
+      : { src: markdownMatch ? markdownMatch[2].replace(/^<(.*)>$/, '$1') : created.path, embed: false };
 
     // Insert image node
-    const { state, dispatch } = view;
-    const node = state.schema.nodes.image.create({
-      src: filePath,
-    });
+    const { state, dispatch } = editorView;
+    const node = state.schema.nodes.image.create(attrs);
 
     const tr = state.tr.replaceSelectionWith(node);
     dispatch(tr);
   } catch (error) {
     console.error('Failed to paste image:', error);
+    new Notice('Could not save the pasted image');
+  }
+}
+
+// `folder/name.ext`, or `folder/name 1.ext` and up if that's taken
+function getAvailablePath(vault: Vault, pathWithoutExtension: string, extension: string): string {
+  const base = normalizePath(pathWithoutExtension);
+  let path = `${base}.${extension}`;
+  for (let i = 1; vault.getAbstractFileByPath(path); i++) {
+    path = `${base} ${i}.${extension}`;
   }
+  return path;
 }
 
 function parseLinkFromPaste(text: string, vault: Vault): string | null {
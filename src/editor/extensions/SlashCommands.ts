@@ -82,6 +82,34 @@ export const SlashCommands = Extension.create({
                 editor.chain().focus().deleteRange(range).setBlockquote().run();
               },
             },
+            {
+              title: 'Callout',
+              icon: '!',
+              command: ({ editor, range }: any) => {
+                editor.chain().focus().deleteRange(range).setCallout({ type: 'note' }).run();
+              },
+            },
+            {
+              title: 'Math Block',
+              icon: '∑',
+              command: ({ editor, range }: any) => {
+                editor.chain().focus().deleteRange(range).insertContent({ type: 'mathBlock' }).run();
+              },
+            },
+            {
+              title: 'Footnote',
+              icon: '¹',
+              command: ({ editor, range }: any) => {
+                editor.chain().focus().deleteRange(range).insertFootnote().run();
+              },
+            },
+            {
+              title: 'Table',
+              icon: '▦',
+              command: ({ editor, range }: any) => {
+                editor.chain().focus().deleteRange(range).insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run();
+              },
+            },
             {
               title: 'Divider',
               icon: '—',
@@ -0,0 +1,220 @@
+import { InputRule, Node, mergeAttributes } from '@tiptap/core';
+import { Suggestion, SuggestionOptions } from '@tiptap/suggestion';
+import { PluginKey } from '@tiptap/pm/state';
+import type { MetadataCache } from 'obsidian';
+import { SuggestionList } from '../ui/SuggestionList';
+
+export interface TagOptions {
+  metadataCache: MetadataCache;
+  suggestion: Partial<SuggestionOptions>;
+}
+
+// Characters Obsidian doesn't allow in a tag name
+const TAG_CHARS = '[^\\s!"#$%&\'()*+,.:;<=>?@[\\\\\\]^`{|}~]';
+const TAG_PATTERN = new RegExp(`^#(${TAG_CHARS}+)`, 'u');
+const TAG_INPUT_PATTERN = new RegExp(`(?:^|\\s)(#(${TAG_CHARS}+))\\s$`, 'u');
+
+// Tags need at least one character that isn't a digit, `#123` is not a tag
+function isValidTag(tag: string): boolean {
+  return /[^\d]/.test(tag);
+}
+
+export const Tag = Node.create<TagOptions>({
+  name: 'tag',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  addOptions() {
+    return {
+      metadataCache: null as any,
+      suggestion: {
+        char: '#',
+        pluginKey: new PluginKey('tag'),
+        command: ({ editor, range, props }) => {
+          editor
+            .chain()
+            .focus()
+            .insertContentAt(range, [
+              {
+                type: this.name,
+                attrs: { tag: props.tag },
+              },
+              {
+                type: 'text',
+                text: ' ',
+              },
+            ])
+            .run();
+        },
+      },
+    };
+  },
+
+  addAttributes() {
+    return {
+      tag: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-tag'),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'span[data-tag]',
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes(HTMLAttributes, {
+        'data-tag': node.attrs.tag,
+        class: 'tag',
+      }),
+      `#${node.attrs.tag}`,
+    ];
+  },
+
+  renderText({ node }) {
+    return `#${node.attrs.tag}`;
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          state.write(`#${node.attrs.tag}`);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.inline.ruler.__find__('tag') !== -1) {
+              return;
+            }
+
+            // Register inline rule with markdown-it to parse #tags
+            markdownit.inline.ruler.after('emphasis', 'tag', function tag(state: any, silent: boolean) {
+              const start = state.pos;
+
+              if (state.src.charCodeAt(start) !== 0x23 /* # */) {
+                return false;
+              }
+
+              // Only at the start of a line or after whitespace, not in `a#b` or URLs
+              if (start > 0 && !/\s/.test(state.src[start - 1])) {
+                return false;
+              }
+
+              const match = TAG_PATTERN.exec(state.src.slice(start, state.posMax));
+              if (!match || !isValidTag(match[1])) {
+                return false;
+              }
+
+              if (!silent) {
+                const token = state.push('html_inline', '', 0);
+                token.content = `<span data-tag="${match[1]}" class="tag">#${match[1]}</span>`;
+              }
+
+              state.pos = start + match[0].length;
+              return true;
+            });
+          },
+        },
+      },
+    };
+  },
+
+  addInputRules() {
+    return [
+      // Turn `#tag` into a tag when it's followed by a space
+      new InputRule({
+        find: TAG_INPUT_PATTERN,
+        handler: ({ state, range, match }) => {
+          const tag = match[2];
+          if (!isValidTag(tag)) {
+            return null;
+          }
+
+          const start = range.from + match[0].indexOf(match[1]);
+          state.tr.replaceWith(start, range.to, [
+            this.type.create({ tag }),
+            state.schema.text(' '),
+          ]);
+        },
+      }),
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    const metadataCache = this.options.metadataCache;
+
+    return [
+      Suggestion({
+        editor: this.editor,
+        ...this.options.suggestion,
+
+        items: ({ query }) => {
+          // getTags() isn't in the public typings, keys include the leading #
+          const counts: Record<string, number> = (metadataCache as any).getTags?.() || {};
+          const lowerQuery = query.toLowerCase();
+
+          const items = Object.entries(counts)
+            .map(([name, count]) => ({ tag: name.slice(1), count }))
+            .filter(({ tag }) => tag.toLowerCase().includes(lowerQuery))
+            .sort((a, b) => {
+              // Prefix matches first, then the most used tags
+              const aPrefix = a.tag.toLowerCase().startsWith(lowerQuery) ? 0 : 1;
+              const bPrefix = b.tag.toLowerCase().startsWith(lowerQuery) ? 0 : 1;
+              return aPrefix - bPrefix || b.count - a.count;
+            })
+            .slice(0, 10)
+            .map(({ tag, count }) => ({
+              tag,
+              label: `#${tag} (${count})`,
+              icon: '#',
+            }));
+
+          // Offer the typed text as a new tag so Enter doesn't get swallowed
+          const exists = Object.keys(counts).some(name => name.slice(1).toLowerCase() === lowerQuery);
+          if (isValidTag(query) && TAG_PATTERN.exec(`#${query}`)?.[1] === query && !exists) {
+            items.push({ tag: query, label: `#${query}`, icon: '+' });
+          }
+
+          return items;
+        },
+
+        render: () => {
+          let component: SuggestionList;
+
+          return {
+            onStart: props => {
+              component = new SuggestionList(props);
+            },
+
+            onUpdate(props) {
+              component.updateProps(props);
+            },
+
+            onKeyDown(props) {
+              if (!component) return false;
+              return component.onKeyDown(props);
+            },
+
+            onExit() {
+              if (component) {
+                component.destroy();
+              }
+            },
+          };
+        },
+      }),
+    ];
+  },
+});
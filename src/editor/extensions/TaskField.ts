@@ -0,0 +1,265 @@
+import { Node } from '@tiptap/core';
+import type { Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Menu } from 'obsidian';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Tasks plugin fields by their emoji
+const DATE_FIELDS: Record<string, string> = {
+  '📅': 'Due',
+  '⏳': 'Scheduled',
+  '🛫': 'Start',
+  '➕': 'Created',
+  '✅': 'Done',
+  '❌': 'Cancelled',
+};
+
+const PRIORITIES: Record<string, string> = {
+  '🔺': 'Highest',
+  '⏫': 'High',
+  '🔼': 'Medium',
+  '🔽': 'Low',
+  '⏬': 'Lowest',
+};
+
+const RECURRENCE = '🔁';
+
+const FIELD_PATTERN = new RegExp([
+  `(?:${Object.keys(DATE_FIELDS).join('|')})\\uFE0F? *\\d{4}-\\d{2}-\\d{2}`,
+  `(?:${Object.keys(PRIORITIES).join('|')})\\uFE0F?`,
+  `${RECURRENCE}\\uFE0F? *[a-zA-Z0-9,!]+(?: +[a-zA-Z0-9,!]+)*`,
+].join('|'), 'gu');
+
+// Emoji with its variation selector and spaces, and the value after it
+function splitField(text: string): { prefix: string; emoji: string; value: string } {
+  const match = /^(\S+?)(\uFE0F? *)(.*)$/u.exec(text);
+  if (!match) {
+    return { prefix: '', emoji: '', value: text };
+  }
+  return { prefix: match[1] + match[2], emoji: match[1], value: match[3] };
+}
+
+function todayString(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * markdown-it core rule that turns Tasks plugin fields in a task's first
+ * line into task field nodes. Runs after the task status rule has marked
+ * the list items that are tasks.
+ */
+function taskFieldsRule(state: any) {
+  const tokens = state.tokens;
+  for (let i = 2; i < tokens.length; i++) {
+    if (tokens[i].type !== 'inline' || tokens[i - 2].type !== 'list_item_open' || tokens[i - 2].attrGet('data-status') === null) {
+      continue;
+    }
+
+    const children: any[] = [];
+    tokens[i].children.forEach((child: any) => {
+      if (child.type !== 'text') {
+        children.push(child);
+        return;
+      }
+
+      let last = 0;
+      for (const match of child.content.matchAll(FIELD_PATTERN)) {
+        if (match.index > last) {
+          const text = new state.Token('text', '', 0);
+          text.content = child.content.slice(last, match.index);
+          children.push(text);
+        }
+        const field = new state.Token('html_inline', '', 0);
+        field.content = `<span data-task-field="${escapeHtml(match[0])}"></span>`;
+        children.push(field);
+        last = match.index + match[0].length;
+      }
+
+      if (last === 0) {
+        children.push(child);
+      } else if (last < child.content.length) {
+        const text = new state.Token('text', '', 0);
+        text.content = child.content.slice(last);
+        children.push(text);
+      }
+    });
+    tokens[i].children = children;
+  }
+}
+
+/**
+ * Fields show as chips. Dates open the system date picker, priorities a
+ * menu and recurrences a text box; only the value is rewritten so the emoji
+ * and spacing stay as they were typed.
+ */
+function createTaskFieldView(node: ProseMirrorNode, getPos: (() => number | undefined) | boolean, editor: Editor) {
+  let currentNode = node;
+
+  const dom = document.createElement('span');
+  dom.className = 'wysiwyg-task-field';
+  dom.contentEditable = 'false';
+  const label = dom.createSpan({ cls: 'wysiwyg-task-field-text' });
+  let input: HTMLInputElement | null = null;
+
+  const setText = (text: string) => {
+    if (typeof getPos !== 'function') return;
+    const pos = getPos();
+    if (pos === undefined || text === currentNode.attrs.text) return;
+    editor.view.dispatch(editor.state.tr.setNodeMarkup(pos, undefined, { ...currentNode.attrs, text }));
+  };
+
+  const render = () => {
+    const { emoji, value } = splitField(currentNode.attrs.text);
+    const kind = emoji in DATE_FIELDS ? 'date' : emoji in PRIORITIES ? 'priority' : 'recurrence';
+    dom.dataset.kind = kind;
+    label.setText(currentNode.attrs.text);
+    dom.setAttribute('aria-label', DATE_FIELDS[emoji] ?? PRIORITIES[emoji] ?? 'Recurrence');
+    dom.toggleClass('is-overdue', emoji === '📅' && value < todayString());
+  };
+
+  const closeInput = () => {
+    input?.remove();
+    input = null;
+    label.show();
+  };
+
+  dom.addEventListener('click', (event) => {
+    if (input || !editor.isEditable) return;
+    const { prefix, emoji, value } = splitField(currentNode.attrs.text);
+
+    if (emoji in PRIORITIES) {
+      const menu = new Menu();
+      Object.entries(PRIORITIES).forEach(([priority, name]) => {
+        menu.addItem(item => item
+          .setTitle(`${priority} ${name}`)
+          .setChecked(priority === emoji)
+          .onClick(() => setText(priority)));
+      });
+      menu.showAtMouseEvent(event);
+      return;
+    }
+
+    if (emoji in DATE_FIELDS) {
+      input = dom.createEl('input', { type: 'date', cls: 'wysiwyg-task-field-date' });
+      input.value = value;
+      input.addEventListener('change', () => {
+        if (input?.value) setText(prefix + input.value);
+      });
+      input.addEventListener('blur', closeInput);
+      input.focus();
+      input.showPicker?.();
+      return;
+    }
+
+    input = dom.createEl('input', { type: 'text', cls: 'wysiwyg-task-field-source' });
+    input.value = value;
+    input.size = Math.max(4, value.length);
+    label.hide();
+    const commit = () => {
+      if (input?.value.trim()) setText(prefix + input.value.trim());
+      closeInput();
+    };
+    input.addEventListener('input', () => {
+      if (input) input.size = Math.max(4, input.value.length);
+    });
+    input.addEventListener('keydown', (keyEvent) => {
+      if (keyEvent.key === 'Enter') {
+        keyEvent.preventDefault();
+        commit();
+      } else if (keyEvent.key === 'Escape') {
+        keyEvent.preventDefault();
+        closeInput();
+      }
+    });
+    input.addEventListener('blur', commit);
+    input.focus();
+  });
+
+  render();
+
+  return {
+    dom,
+    update: (updatedNode: ProseMirrorNode) => {
+      if (updatedNode.type !== currentNode.type) return false;
+      currentNode = updatedNode;
+      render();
+      return true;
+    },
+    stopEvent: (event: Event) => !!input && input.contains(event.target as HTMLElement),
+    ignoreMutation: () => true,
+    destroy: closeInput,
+  };
+}
+
+/**
+ * Tasks plugin field in a task, e.g. `📅 2026-10-20`, `⏫` or `🔁 every
+ * week`. The text is kept exactly as written.
+ */
+export const TaskField = Node.create({
+  name: 'taskField',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addAttributes() {
+    return {
+      text: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-task-field') ?? '',
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'span[data-task-field]',
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    return ['span', { 'data-task-field': node.attrs.text, class: 'wysiwyg-task-field' }, node.attrs.text];
+  },
+
+  renderText({ node }) {
+    return node.attrs.text;
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: any, node: any) {
+          state.write(node.attrs.text);
+        },
+        parse: {
+          setup(markdownit: any) {
+            // The parser calls setup before every parse, the rule must only be added once
+            if (markdownit.core.ruler.__find__('task_fields') === -1) {
+              markdownit.core.ruler.push('task_fields', taskFieldsRule);
+            }
+          },
+        },
+      },
+    };
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor }) => createTaskFieldView(node, getPos, editor);
+  },
+});
@@ -1,10 +1,79 @@
-import { Node, mergeAttributes } from '@tiptap/core';
+import { InputRule, Node, mergeAttributes } from '@tiptap/core';
+import { Suggestion, SuggestionOptions } from '@tiptap/suggestion';
 import { Plugin, PluginKey } from '@tiptap/pm/state';
-import type { Vault, Workspace } from 'obsidian';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { parseFrontMatterAliases, prepareFuzzySearch } from 'obsidian';
+import type { MetadataCache, TFile, Vault, Workspace } from 'obsidian';
+import type { WYSIWYGView } from '../WYSIWYGView';
+import { SuggestionList } from '../ui/SuggestionList';
+import { createNoteForLink } from '../utils/notes';
 
 export interface WikiLinkOptions {
   vault: Vault;
   workspace: Workspace;
+  metadataCache: MetadataCache;
+  view: WYSIWYGView;
+  suggestion: Partial<SuggestionOptions>;
+}
+
+export interface WikiLinkTarget {
+  // Link path without the subpath, '' for links within the same note
+  path: string;
+  // `#Heading`, `#Parent#Child` or `#^blockid`, '' when linking the whole note
+  subpath: string;
+  alias: string | null;
+}
+
+/**
+ * Split the text between `[[` and `]]` into path, subpath and alias, exactly
+ * as written so it can be serialized back unchanged.
+ */
+export function parseWikiLink(content: string): WikiLinkTarget {
+  const pipe = content.indexOf('|');
+  const target = pipe === -1 ? content : content.slice(0, pipe);
+  const alias = pipe === -1 ? null : content.slice(pipe + 1);
+
+  const hash = target.indexOf('#');
+  return {
+    path: hash === -1 ? target : target.slice(0, hash),
+    subpath: hash === -1 ? '' : target.slice(hash),
+    alias,
+  };
+}
+
+// Text shown for a link without alias, like Obsidian's `Note > Heading`
+export function getWikiLinkDisplayText(path: string, subpath: string): string {
+  const parts = subpath.split('#').filter(Boolean);
+  return [path, ...parts].filter(Boolean).join(' > ');
+}
+
+// Characters Obsidian drops from heading names in link text
+export function toLinkHeading(heading: string): string {
+  return heading.replace(/[#|^[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+interface WikiLinkSuggestion {
+  path: string;
+  subpath: string;
+  alias?: string;
+  // HTML for the suggestion list
+  label: string;
+  description?: string;
+  icon: string;
+  onSelect?: () => void;
+}
+
+const MAX_SUGGESTIONS = 20;
+
+const unresolvedPluginKey = new PluginKey<DecorationSet>('wikilinkUnresolved');
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
 }
 
 export const WikiLink = Node.create<WikiLinkOptions>({
@@ -20,16 +89,55 @@ export const WikiLink = Node.create<WikiLinkOptions>({
     return {
       vault: null as any,
       workspace: null as any,
+      metadataCache: null as any,
+      view: null as any,
+      suggestion: {
+        char: '[[',
+        pluginKey: new PluginKey('wikilink'),
+        allowSpaces: true,
+        allowedPrefixes: null,
+        command: ({ editor, range, props }) => {
+          editor
+            .chain()
+            .focus()
+            .insertContentAt(range, {
+              type: this.name,
+              attrs: {
+                path: props.path,
+                subpath: props.subpath,
+                alias: props.alias ?? null,
+              },
+            })
+            .run();
+
+          // "Create note" entries make the file once the link is in
+          props.onSelect?.();
+        },
+        allow: ({ state, range }) => {
+          // Stop suggesting once the link has been closed by hand
+          return !state.doc.textBetween(range.from, range.to).includes(']]');
+        },
+      },
     };
   },
 
   addAttributes() {
+    // Read from our own data attributes, the defaults would pick up `href="#"`
     return {
-      href: {
-        default: null,
+      path: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-path') ?? '',
+        renderHTML: () => ({}),
+      },
+      subpath: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-subpath') ?? '',
+        renderHTML: () => ({}),
       },
       alias: {
         default: null,
+        parseHTML: element => element.getAttribute('data-alias'),
+        renderHTML: () => ({}),
       },
     };
   },
@@ -39,50 +147,47 @@ export const WikiLink = Node.create<WikiLinkOptions>({
       {
         tag: 'a[data-wikilink]',
         priority: 100,
-        getAttrs: (element) => {
-          const href = (element as HTMLElement).getAttribute('data-wikilink');
-          const alias = (element as HTMLElement).textContent;
-          console.log('WikiLink parseHTML:', { href, alias, element: (element as HTMLElement).outerHTML });
-          return {
-            href,
-            alias: alias !== href ? alias : null,
-          };
-        },
       },
     ];
   },
 
   renderHTML({ node, HTMLAttributes }) {
-    const alias = node.attrs.alias || node.attrs.href;
+    const { path, subpath, alias } = node.attrs;
+    const attrs: Record<string, string> = {
+      'data-wikilink': path + subpath,
+      'data-path': path,
+      'data-subpath': subpath,
+      class: 'internal-link',
+      href: '#',
+    };
+    if (alias !== null) {
+      attrs['data-alias'] = alias;
+    }
 
     return [
       'a',
-      mergeAttributes(HTMLAttributes, {
-        'data-wikilink': node.attrs.href,
-        class: 'internal-link',
-        href: '#',
-      }),
-      alias,
+      mergeAttributes(HTMLAttributes, attrs),
+      alias || getWikiLinkDisplayText(path, subpath),
     ];
   },
 
+  renderText({ node }) {
+    return node.attrs.alias || getWikiLinkDisplayText(node.attrs.path, node.attrs.subpath);
+  },
+
   addStorage() {
     return {
       markdown: {
         serialize(state: any, node: any) {
-          const { href, alias } = node.attrs;
-          console.log('WikiLink serialize:', { href, alias, attrs: node.attrs });
+          const { path, subpath, alias } = node.attrs;
+          const target = path + subpath;
 
-          if (!href) {
-            console.error('WikiLink serialize: href is null/empty!', node.attrs);
+          if (!target) {
+            console.error('WikiLink serialize: empty link target', node.attrs);
             return;
           }
 
-          if (alias && alias !== href) {
-            state.write(`[[${href}|${alias}]]`);
-          } else {
-            state.write(`[[${href}]]`);
-          }
+          state.write(alias !== null ? `[[${target}|${alias}]]` : `[[${target}]]`);
         },
         parse: {
           setup(markdownit: any) {
@@ -108,20 +213,17 @@ export const WikiLink = Node.create<WikiLinkOptions>({
                 pos++;
               }
 
-              if (pos >= max) {
+              if (pos >= max || pos === start + 2) {
                 return false;
               }
 
-              // Extract content
-              const content = state.src.slice(start + 2, pos);
-              const parts = content.split('|');
-              const href = parts[0].trim();
-              const alias = parts[1]?.trim() || href;
+              const { path, subpath, alias } = parseWikiLink(state.src.slice(start + 2, pos));
 
               if (!silent) {
                 const token = state.push('html_inline', '', 0);
-                token.content = `<a data-wikilink="${href}" class="internal-link" href="#">${alias}</a>`;
-                console.log('WikiLink parse:', { href, alias, html: token.content });
+                const aliasAttr = alias !== null ? ` data-alias="${escapeHtml(alias)}"` : '';
+                token.content = `<a data-wikilink="${escapeHtml(path + subpath)}" data-path="${escapeHtml(path)}" ` +
+                  `data-subpath="${escapeHtml(subpath)}"${aliasAttr} class="internal-link" href="#"></a>`;
               }
 
               state.pos = pos + 2;
@@ -132,4 +234,271 @@ export const WikiLink = Node.create<WikiLinkOptions>({
       },
     };
   },
+
+  addInputRules() {
+    return [
+      // Typing the closing ]] of a link turns it into a wikilink
+      new InputRule({
+        find: /(?<!!)\[\[([^[\]]+)\]\]$/,
+        handler: ({ state, range, match }) => {
+          const { path, subpath, alias } = parseWikiLink(match[1]);
+          state.tr.replaceWith(range.from, range.to, this.type.create({ path, subpath, alias }));
+        },
+      }),
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    const { vault, metadataCache, view } = this.options;
+
+    const getFile = (path: string): TFile | null => {
+      const sourcePath = view?.file?.path || '';
+      return path ? metadataCache.getFirstLinkpathDest(path, sourcePath) : view?.file || null;
+    };
+
+    const getHeadingItems = (path: string, query: string) => {
+      const file = getFile(path);
+      const headings = file ? metadataCache.getFileCache(file)?.headings || [] : [];
+      const lowerQuery = query.toLowerCase();
+
+      return headings
+        .filter(heading => heading.heading.toLowerCase().includes(lowerQuery))
+        .slice(0, 20)
+        .map(heading => ({
+          path,
+          subpath: `#${toLinkHeading(heading.heading)}`,
+          label: `${'#'.repeat(heading.level)} ${escapeHtml(heading.heading)}`,
+          icon: '§',
+        }));
+    };
+
+    const getBlockItems = async (path: string, query: string) => {
+      const file = getFile(path);
+      const blocks = file ? metadataCache.getFileCache(file)?.blocks || {} : {};
+      if (!file || Object.keys(blocks).length === 0) return [];
+
+      const content = await vault.cachedRead(file);
+      const lowerQuery = query.toLowerCase();
+
+      return Object.values(blocks)
+        .map(block => {
+          const text = content
+            .slice(block.position.start.offset, block.position.end.offset)
+            .replace(new RegExp(`\\s*\\^${block.id}\\s*$`), '')
+            .trim();
+          return { id: block.id, text };
+        })
+        .filter(({ id, text }) => `${id} ${text}`.toLowerCase().includes(lowerQuery))
+        .slice(0, 20)
+        .map(({ id, text }) => ({
+          path,
+          subpath: `#^${id}`,
+          label: `^${id} ${escapeHtml(text.slice(0, 60))}`,
+          icon: '^',
+        }));
+    };
+
+    const getVaultHeadingItems = (query: string) => {
+      const sourcePath = view?.file?.path || '';
+      const search = prepareFuzzySearch(query);
+      const results: { score: number; item: WikiLinkSuggestion }[] = [];
+
+      for (const file of vault.getMarkdownFiles()) {
+        for (const heading of metadataCache.getFileCache(file)?.headings || []) {
+          const match = query ? search(heading.heading) : { score: 0 };
+          if (!match) continue;
+
+          results.push({
+            score: match.score,
+            item: {
+              path: metadataCache.fileToLinktext(file, sourcePath, true),
+              subpath: `#${toLinkHeading(heading.heading)}`,
+              label: escapeHtml(heading.heading),
+              description: escapeHtml(file.basename),
+              icon: '§',
+            },
+          });
+        }
+      }
+
+      return results
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_SUGGESTIONS)
+        .map(result => result.item);
+    };
+
+    // Every file in the vault plus frontmatter aliases, fuzzy ranked
+    const getFileItems = (query: string): WikiLinkSuggestion[] => {
+      const sourcePath = view?.file?.path || '';
+      const search = prepareFuzzySearch(query);
+      const results: { score: number; item: WikiLinkSuggestion }[] = [];
+
+      // Without a query, recently opened files come first
+      const recent = view?.app.workspace.getLastOpenFiles() || [];
+
+      for (const file of vault.getFiles()) {
+        const isNote = file.extension === 'md';
+        const name = isNote ? file.basename : file.name;
+        const path = metadataCache.fileToLinktext(file, sourcePath, true);
+        const folder = file.parent && !file.parent.isRoot() ? file.parent.path : '';
+
+        const match = query
+          ? search(name) || search(isNote ? file.path.slice(0, -3) : file.path)
+          : { score: recent.includes(file.path) ? -recent.indexOf(file.path) : -Infinity };
+        if (match) {
+          results.push({
+            score: match.score,
+            item: {
+              path,
+              subpath: '',
+              label: escapeHtml(name),
+              description: escapeHtml(folder),
+              icon: isNote ? '📄' : '📎',
+            },
+          });
+        }
+
+        if (!isNote || !query) continue;
+
+        const aliases = parseFrontMatterAliases(metadataCache.getFileCache(file)?.frontmatter) || [];
+        for (const alias of aliases) {
+          const aliasMatch = search(alias);
+          if (aliasMatch) {
+            results.push({
+              score: aliasMatch.score,
+              item: {
+                path,
+                subpath: '',
+                alias,
+                label: escapeHtml(alias),
+                description: escapeHtml(file.basename),
+                icon: '↪',
+              },
+            });
+          }
+        }
+      }
+
+      const items = results
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_SUGGESTIONS)
+        .map(result => result.item);
+
+      const name = query.trim();
+      const exists = vault.getMarkdownFiles().some(file =>
+        file.basename.toLowerCase() === name.toLowerCase() ||
+        file.path.slice(0, -3).toLowerCase() === name.toLowerCase()
+      );
+      if (name && !exists && !/[|#^[\]\\:*?"<>]/.test(name)) {
+        items.push({
+          path: name,
+          subpath: '',
+          label: `Create note '${escapeHtml(name)}'`,
+          icon: '+',
+          onSelect: () => createNoteForLink(view.app, name, sourcePath),
+        });
+      }
+
+      return items;
+    };
+
+    // Mark links to missing notes with `is-unresolved`, like Obsidian does
+    const getUnresolvedDecorations = (doc: ProseMirrorNode): DecorationSet => {
+      const decorations: Decoration[] = [];
+      const sourcePath = view?.file?.path || '';
+
+      doc.descendants((node, pos) => {
+        if (node.type === this.type && node.attrs.path &&
+            !metadataCache.getFirstLinkpathDest(node.attrs.path, sourcePath)) {
+          decorations.push(Decoration.node(pos, pos + node.nodeSize, { class: 'is-unresolved' }));
+        }
+      });
+
+      return DecorationSet.create(doc, decorations);
+    };
+
+    const unresolvedPlugin = new Plugin<DecorationSet>({
+      key: unresolvedPluginKey,
+      state: {
+        init: (_, state) => getUnresolvedDecorations(state.doc),
+        apply: (tr, decorations) => {
+          if (tr.docChanged || tr.getMeta(unresolvedPluginKey)) {
+            return getUnresolvedDecorations(tr.doc);
+          }
+          return decorations.map(tr.mapping, tr.doc);
+        },
+      },
+      props: {
+        decorations: state => unresolvedPluginKey.getState(state),
+      },
+      view: editorView => {
+        // Files appearing, disappearing or moving can change how links resolve
+        const refresh = () => {
+          editorView.dispatch(editorView.state.tr.setMeta(unresolvedPluginKey, true));
+        };
+        const refs = [
+          vault.on('create', refresh),
+          vault.on('delete', refresh),
+          vault.on('rename', refresh),
+        ];
+
+        return {
+          destroy: () => refs.forEach(ref => vault.offref(ref)),
+        };
+      },
+    });
+
+    return [
+      unresolvedPlugin,
+      Suggestion({
+        editor: this.editor,
+        ...this.options.suggestion,
+
+        items: async ({ query }) => {
+          // [[##Heading searches headings in every note
+          if (query.startsWith('##')) {
+            return getVaultHeadingItems(query.slice(2));
+          }
+
+          // [[Note#Heading, [[#Heading, [[Note#^block and [[Note^block
+          const hash = query.indexOf('#');
+          const caret = query.indexOf('^');
+          if (caret !== -1 && (hash === -1 || caret <= hash + 1)) {
+            const path = query.slice(0, hash !== -1 && hash < caret ? hash : caret);
+            return getBlockItems(path, query.slice(caret + 1));
+          }
+          if (hash !== -1) {
+            return getHeadingItems(query.slice(0, hash), query.slice(hash + 1));
+          }
+
+          return getFileItems(query);
+        },
+
+        render: () => {
+          let component: SuggestionList;
+
+          return {
+            onStart: props => {
+              component = new SuggestionList(props);
+            },
+
+            onUpdate(props) {
+              component.updateProps(props);
+            },
+
+            onKeyDown(props) {
+              if (!component) return false;
+              return component.onKeyDown(props);
+            },
+
+            onExit() {
+              if (component) {
+                component.destroy();
+              }
+            },
+          };
+        },
+      }),
+    ];
+  },
 });
@@ -0,0 +1,229 @@
+import type { Editor } from '@tiptap/core';
+import type { EditorView } from '@tiptap/pm/view';
+import { NodeSelection, TextSelection } from '@tiptap/pm/state';
+import { Menu, Notice, setIcon } from 'obsidian';
+import { toLinkHeading } from '../extensions/WikiLink';
+import { Block, findBlock } from '../utils/blocks';
+import type { WYSIWYGView } from '../WYSIWYGView';
+
+export interface TurnIntoItem {
+  title: string;
+  icon: string;
+  run: (editor: Editor) => void;
+}
+
+export const TURN_INTO: TurnIntoItem[] = [
+  { title: 'Text', icon: 'pilcrow', run: editor => editor.chain().focus().setParagraph().run() },
+  { title: 'Heading 1', icon: 'heading-1', run: editor => editor.chain().focus().setHeading({ level: 1 }).run() },
+  { title: 'Heading 2', icon: 'heading-2', run: editor => editor.chain().focus().setHeading({ level: 2 }).run() },
+  { title: 'Heading 3', icon: 'heading-3', run: editor => editor.chain().focus().setHeading({ level: 3 }).run() },
+  { title: 'Bullet list', icon: 'list', run: editor => editor.chain().focus().toggleBulletList().run() },
+  { title: 'Numbered list', icon: 'list-ordered', run: editor => editor.chain().focus().toggleOrderedList().run() },
+  { title: 'Task list', icon: 'list-checks', run: editor => editor.chain().focus().toggleTaskList().run() },
+  { title: 'Code block', icon: 'code', run: editor => editor.chain().focus().setCodeBlock().run() },
+  { title: 'Quote', icon: 'quote', run: editor => editor.chain().focus().toggleBlockquote().run() },
+];
+
+// Obsidian's block ids, `^` followed by letters, digits and dashes at the end of the block
+const BLOCK_ID_PATTERN = /(?:^|\s)\^([a-zA-Z0-9-]+)$/;
+
+/**
+ * Grip shown in the gutter next to the block under the mouse. Dragging it
+ * moves the block with ProseMirror's own drop handling, clicking it opens a
+ * menu of block actions.
+ */
+export class BlockHandle {
+  private editor: Editor;
+  private view: EditorView;
+  private wysiwygView: WYSIWYGView;
+  private element: HTMLElement;
+  private block: Block | null = null;
+  private onMouseMove = (event: MouseEvent) => this.showFor(event);
+  private onMouseLeave = (event: MouseEvent) => {
+    if (!this.element.contains(event.relatedTarget as HTMLElement)) {
+      this.hide();
+    }
+  };
+
+  constructor(editor: Editor, view: EditorView, wysiwygView: WYSIWYGView) {
+    this.editor = editor;
+    this.view = view;
+    this.wysiwygView = wysiwygView;
+
+    this.element = createDiv({ cls: 'wysiwyg-block-handle clickable-icon', attr: { draggable: 'true', 'aria-label': 'Drag to move, click for options' } });
+    setIcon(this.element, 'grip-vertical');
+    this.element.hide();
+
+    this.element.addEventListener('dragstart', (event) => this.onDragStart(event));
+    this.element.addEventListener('dragend', () => this.hide());
+    this.element.addEventListener('mouseleave', this.onMouseLeave);
+    this.element.addEventListener('click', (event) => this.openMenu(event));
+
+    view.dom.parentElement?.appendChild(this.element);
+    view.dom.addEventListener('mousemove', this.onMouseMove);
+    view.dom.addEventListener('mouseleave', this.onMouseLeave);
+  }
+
+  update(view: EditorView) {
+    this.view = view;
+    // Positions from before the change may point at another block now
+    if (this.block && view.state.doc.nodeAt(this.block.pos) !== this.block.node) {
+      this.hide();
+    }
+  }
+
+  destroy() {
+    this.view.dom.removeEventListener('mousemove', this.onMouseMove);
+    this.view.dom.removeEventListener('mouseleave', this.onMouseLeave);
+    this.element.remove();
+  }
+
+  private hide() {
+    this.block = null;
+    this.element.hide();
+  }
+
+  private showFor(event: MouseEvent) {
+    if (!this.view.editable || !this.element.parentElement) return;
+
+    const hit = this.view.posAtCoords({ left: event.clientX, top: event.clientY });
+    if (!hit) return;
+
+    // Atom blocks like math or embeds have no position inside them
+    const atom = hit.inside >= 0 ? this.view.state.doc.nodeAt(hit.inside) : null;
+    const block = atom?.isBlock && atom.isAtom
+      ? { node: atom, pos: hit.inside }
+      : findBlock(this.view.state.doc.resolve(hit.inside >= 0 ? hit.inside + 1 : hit.pos));
+    const blockDom = block ? this.view.nodeDOM(block.pos) : null;
+    if (!block || !(blockDom instanceof HTMLElement)) return;
+
+    this.block = block;
+    this.element.show();
+    const containerRect = this.element.parentElement.getBoundingClientRect();
+    const blockRect = blockDom.getBoundingClientRect();
+    // List items leave room for their bullet or checkbox
+    const gap = block.node.type.name === 'listItem' || block.node.type.name === 'taskItem' ? 20 : 4;
+    this.element.style.top = `${blockRect.top - containerRect.top}px`;
+    this.element.style.left = `${blockRect.left - containerRect.left - this.element.offsetWidth - gap}px`;
+  }
+
+  private onDragStart(event: DragEvent) {
+    const block = this.block;
+    if (!block || !event.dataTransfer) return;
+
+    const selection = NodeSelection.create(this.view.state.doc, block.pos);
+    this.view.dispatch(this.view.state.tr.setSelection(selection));
+
+    const slice = selection.content();
+    const { dom, text } = this.view.serializeForClipboard(slice);
+    event.dataTransfer.clearData();
+    event.dataTransfer.setData('text/html', dom.innerHTML);
+    event.dataTransfer.setData('text/plain', text);
+    event.dataTransfer.effectAllowed = 'copyMove';
+
+    const blockDom = this.view.nodeDOM(block.pos);
+    if (blockDom instanceof HTMLElement) {
+      event.dataTransfer.setDragImage(blockDom, 0, 0);
+    }
+
+    // ProseMirror's drop handler moves the selected node when it knows it's being dragged
+    const dragging = { slice, move: true, node: selection };
+    this.view.dragging = dragging;
+  }
+
+  private openMenu(event: MouseEvent) {
+    const block = this.block;
+    if (!block) return;
+
+    const menu = new Menu();
+    const canTurnInto = block.node.isTextblock || block.node.type.name === 'listItem' || block.node.type.name === 'taskItem';
+
+    if (canTurnInto) {
+      TURN_INTO.forEach(({ title, icon, run }) => {
+        menu.addItem(item => item
+          .setTitle(`Turn into ${title.toLowerCase()}`)
+          .setIcon(icon)
+          .setSection('turn-into')
+          .onClick(() => {
+            this.selectStart(block);
+            run(this.editor);
+          }));
+      });
+    }
+
+    menu.addItem(item => item
+      .setTitle('Duplicate')
+      .setIcon('copy')
+      .setSection('block')
+      .onClick(() => {
+        this.view.dispatch(this.view.state.tr.insert(block.pos + block.node.nodeSize, block.node));
+      }));
+
+    menu.addItem(item => item
+      .setTitle('Copy link to block')
+      .setIcon('link')
+      .setSection('block')
+      .onClick(() => this.copyLink(block)));
+
+    menu.addItem(item => item
+      .setTitle('Delete')
+      .setIcon('trash-2')
+      .setSection('danger')
+      .onClick(() => {
+        this.view.dispatch(this.view.state.tr.delete(block.pos, block.pos + block.node.nodeSize));
+        this.hide();
+      }));
+
+    menu.showAtMouseEvent(event);
+  }
+
+  // Cursor at the start of the block's text, where the turn into commands act
+  private selectStart(block: Block) {
+    const { doc } = this.view.state;
+    this.view.dispatch(this.view.state.tr.setSelection(TextSelection.near(doc.resolve(block.pos + 1))));
+  }
+
+  private copyLink(block: Block) {
+    const file = this.wysiwygView.file;
+    if (!file) return;
+
+    // Headings are linked by their text, everything else gets a block id
+    const subpath = block.node.type.name === 'heading' ? `#${toLinkHeading(block.node.textContent)}` : `#^${this.ensureBlockId(block)}`;
+    const link = this.wysiwygView.app.fileManager.generateMarkdownLink(file, file.path, subpath);
+    navigator.clipboard.writeText(link).then(
+      () => new Notice('Block link copied'),
+      () => new Notice('Could not copy the block link'),
+    );
+  }
+
+  /**
+   * Id the block already has, or a new one: written after the text of
+   * paragraphs and list items, and on its own line after other blocks.
+   */
+  private ensureBlockId(block: Block): string {
+    const { state } = this.view;
+    // A list item's id goes on its first line, a quote's or callout's after it
+    const isListItem = block.node.type.name === 'listItem' || block.node.type.name === 'taskItem';
+    const textblock = block.node.isTextblock ? block.node : isListItem && block.node.firstChild?.isTextblock ? block.node.firstChild : null;
+
+    if (textblock && block.node.type.name !== 'codeBlock') {
+      const existing = BLOCK_ID_PATTERN.exec(textblock.textContent);
+      if (existing) return existing[1];
+
+      const id = Math.random().toString(36).slice(2, 8);
+      // End of the paragraph's content, inside its closing token
+      const end = block.node === textblock ? block.pos + textblock.nodeSize - 1 : block.pos + 1 + textblock.nodeSize - 1;
+      this.view.dispatch(state.tr.insertText(` ^${id}`, end));
+      return id;
+    }
+
+    const after = state.doc.nodeAt(block.pos + block.node.nodeSize);
+    const existing = after?.type.name === 'paragraph' ? /^\^([a-zA-Z0-9-]+)$/.exec(after.textContent) : null;
+    if (existing) return existing[1];
+
+    const id = Math.random().toString(36).slice(2, 8);
+    const paragraph = state.schema.nodes.paragraph.create(null, state.schema.text(`^${id}`));
+    this.view.dispatch(state.tr.insert(block.pos + block.node.nodeSize, paragraph));
+    return id;
+  }
+}
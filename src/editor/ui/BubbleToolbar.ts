@@ -0,0 +1,110 @@
+import type { Editor } from '@tiptap/core';
+import type { EditorView } from '@tiptap/pm/view';
+import { TextSelection } from '@tiptap/pm/state';
+import { Menu, setIcon } from 'obsidian';
+import { TURN_INTO } from './BlockHandle';
+import type { WYSIWYGView } from '../WYSIWYGView';
+
+interface BubbleToolbarItem {
+  icon: string;
+  label: string;
+  // Mark or node that shows the button as active
+  active?: string;
+  run: (event: MouseEvent) => void;
+}
+
+/**
+ * Formatting toolbar shown above selected text. Marks are toggled in place,
+ * the link button opens the link popover and turn into changes the block.
+ */
+export class BubbleToolbar {
+  private editor: Editor;
+  private view: EditorView;
+  private element: HTMLElement;
+  private buttons: { item: BubbleToolbarItem; button: HTMLElement }[] = [];
+  private onBlur = (event: FocusEvent) => {
+    // Clicks on the toolbar keep the focus, so any blur leaves the editor
+    if (!this.element.contains(event.relatedTarget as HTMLElement)) {
+      this.element.hide();
+    }
+  };
+
+  constructor(editor: Editor, view: EditorView, wysiwygView: WYSIWYGView) {
+    this.editor = editor;
+    this.view = view;
+    this.element = createDiv({ cls: 'wysiwyg-bubble-toolbar' });
+    this.element.hide();
+
+    const items: BubbleToolbarItem[] = [
+      { icon: 'bold', label: 'Bold', active: 'bold', run: () => editor.chain().focus().toggleBold().run() },
+      { icon: 'italic', label: 'Italic', active: 'italic', run: () => editor.chain().focus().toggleItalic().run() },
+      { icon: 'strikethrough', label: 'Strikethrough', active: 'strike', run: () => editor.chain().focus().toggleStrike().run() },
+      { icon: 'underline', label: 'Underline', active: 'underline', run: () => editor.chain().focus().toggleUnderline().run() },
+      { icon: 'highlighter', label: 'Highlight', active: 'highlight', run: () => editor.chain().focus().toggleHighlight().run() },
+      { icon: 'code', label: 'Code', active: 'code', run: () => editor.chain().focus().toggleCode().run() },
+      { icon: 'link', label: 'Link', active: 'link', run: () => wysiwygView.editLink() },
+      { icon: 'pilcrow', label: 'Turn into', run: (event) => this.openTurnIntoMenu(event) },
+    ];
+
+    items.forEach(item => {
+      const button = this.element.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': item.label } });
+      setIcon(button, item.icon);
+      // Keep the selection in the editor
+      button.addEventListener('mousedown', (event) => event.preventDefault());
+      button.addEventListener('click', (event) => item.run(event));
+      this.buttons.push({ item, button });
+    });
+
+    view.dom.parentElement?.appendChild(this.element);
+    view.dom.addEventListener('blur', this.onBlur);
+    this.update(view);
+  }
+
+  update(view: EditorView) {
+    this.view = view;
+    const { selection } = view.state;
+    const visible = view.editable
+      && view.hasFocus()
+      && selection instanceof TextSelection
+      && !selection.empty
+      && !this.editor.isActive('codeBlock')
+      // Whitespace or a block boundary alone isn't worth formatting
+      && view.state.doc.textBetween(selection.from, selection.to).trim() !== '';
+
+    if (!visible || !this.element.parentElement) {
+      this.element.hide();
+      return;
+    }
+
+    this.buttons.forEach(({ item, button }) => {
+      button.toggleClass('is-active', item.active !== undefined && this.editor.isActive(item.active));
+    });
+
+    this.element.show();
+    const containerRect = this.element.parentElement.getBoundingClientRect();
+    const start = view.coordsAtPos(selection.from);
+    const end = view.coordsAtPos(selection.to);
+    const width = this.element.offsetWidth;
+    // Centered over the selection, or over its first line when it wraps
+    const center = start.top === end.top ? (start.left + end.left) / 2 : start.left + width / 2;
+    const left = Math.max(0, Math.min(center - width / 2 - containerRect.left, containerRect.width - width));
+    this.element.style.top = `${start.top - containerRect.top - this.element.offsetHeight - 6}px`;
+    this.element.style.left = `${left}px`;
+  }
+
+  destroy() {
+    this.view.dom.removeEventListener('blur', this.onBlur);
+    this.element.remove();
+  }
+
+  private openTurnIntoMenu(event: MouseEvent) {
+    const menu = new Menu();
+    TURN_INTO.forEach(({ title, icon, run }) => {
+      menu.addItem(item => item
+        .setTitle(title)
+        .setIcon(icon)
+        .onClick(() => run(this.editor)));
+    });
+    menu.showAtMouseEvent(event);
+  }
+}
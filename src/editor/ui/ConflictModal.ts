@@ -0,0 +1,108 @@
+import { App, Modal } from 'obsidian';
+import { ConflictChoice, MergeChunk, resolveMerge } from '../utils/merge';
+
+export interface ConflictModalOptions {
+  fileName: string;
+  chunks: MergeChunk[];
+  onResolve: (content: string) => void;
+  onCancel: () => void;
+}
+
+const CHOICE_LABELS: Record<ConflictChoice, string> = {
+  ours: 'Keep mine',
+  theirs: 'Keep disk version',
+  both: 'Keep both',
+};
+
+export class ConflictModal extends Modal {
+  private options: ConflictModalOptions;
+  private choices: ConflictChoice[] = [];
+  private resolved = false;
+
+  constructor(app: App, options: ConflictModalOptions) {
+    super(app);
+    this.options = options;
+    this.choices = options.chunks
+      .filter(chunk => chunk.type === 'conflict')
+      .map(() => 'ours');
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('conflict-modal');
+
+    this.setTitle(`"${this.options.fileName}" changed on disk`);
+
+    contentEl.createEl('p', {
+      text: 'The note was changed outside this editor while you had unsaved edits, ' +
+        'and both versions touch the same lines. Choose what to keep for each conflict.',
+    });
+
+    const list = contentEl.createDiv('conflict-list');
+    let conflictIndex = 0;
+    for (const chunk of this.options.chunks) {
+      if (chunk.type === 'conflict') {
+        this.renderConflict(list, chunk.conflict.ours, chunk.conflict.theirs, conflictIndex++);
+      }
+    }
+
+    const buttons = contentEl.createDiv('conflict-buttons');
+
+    const mineBtn = buttons.createEl('button', { text: 'Keep my version' });
+    mineBtn.addEventListener('click', () => this.resolve(this.choices.map(() => 'ours')));
+
+    const theirsBtn = buttons.createEl('button', { text: 'Use disk version' });
+    theirsBtn.addEventListener('click', () => this.resolve(this.choices.map(() => 'theirs')));
+
+    const applyBtn = buttons.createEl('button', { text: 'Apply', cls: 'mod-cta' });
+    applyBtn.addEventListener('click', () => this.resolve(this.choices));
+  }
+
+  private renderConflict(container: HTMLElement, ours: string, theirs: string, index: number) {
+    const conflictEl = container.createDiv('conflict-item');
+
+    const header = conflictEl.createDiv('conflict-item-header');
+    header.createSpan({ cls: 'conflict-item-title', text: `Conflict ${index + 1}` });
+
+    const choiceButtons: Partial<Record<ConflictChoice, HTMLElement>> = {};
+    const updateSelection = () => {
+      for (const [choice, button] of Object.entries(choiceButtons)) {
+        button?.toggleClass('is-active', choice === this.choices[index]);
+      }
+    };
+
+    for (const choice of Object.keys(CHOICE_LABELS) as ConflictChoice[]) {
+      const button = header.createEl('button', { text: CHOICE_LABELS[choice] });
+      button.addEventListener('click', () => {
+        this.choices[index] = choice;
+        updateSelection();
+      });
+      choiceButtons[choice] = button;
+    }
+    updateSelection();
+
+    const sides = conflictEl.createDiv('conflict-sides');
+
+    const oursEl = sides.createDiv('conflict-side is-ours');
+    oursEl.createDiv({ cls: 'conflict-side-label', text: 'Your version' });
+    oursEl.createEl('pre', { text: ours || '(removed)' });
+
+    const theirsEl = sides.createDiv('conflict-side is-theirs');
+    theirsEl.createDiv({ cls: 'conflict-side-label', text: 'Disk version' });
+    theirsEl.createEl('pre', { text: theirs || '(removed)' });
+  }
+
+  private resolve(choices: ConflictChoice[]) {
+    this.resolved = true;
+    this.close();
+    this.options.onResolve(resolveMerge(this.options.chunks, choices));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    if (!this.resolved) {
+      this.options.onCancel();
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { App, Modal } from 'obsidian';
+import type { Change } from 'diff';
+
+export interface FidelityModalOptions {
+  fileName: string;
+  diff: Change[];
+  onOpenNative: () => void;
+  onAccept: () => void;
+}
+
+// Unchanged runs longer than this are collapsed to keep the diff readable
+const CONTEXT_LINES = 3;
+
+export class FidelityModal extends Modal {
+  private options: FidelityModalOptions;
+
+  constructor(app: App, options: FidelityModalOptions) {
+    super(app);
+    this.options = options;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('fidelity-modal');
+
+    this.setTitle(`"${this.options.fileName}" won't round-trip`);
+
+    contentEl.createEl('p', {
+      text: 'Saving this note from the WYSIWYG editor would change its markdown. ' +
+        'Review the changes below before anything is written to disk.',
+    });
+
+    const diffEl = contentEl.createDiv('fidelity-diff');
+    renderLineDiff(diffEl, this.options.diff);
+
+    const buttons = contentEl.createDiv('fidelity-buttons');
+
+    const nativeBtn = buttons.createEl('button', { text: 'Open in markdown view' });
+    nativeBtn.addEventListener('click', () => {
+      this.close();
+      this.options.onOpenNative();
+    });
+
+    const acceptBtn = buttons.createEl('button', { text: 'Accept changes', cls: 'mod-warning' });
+    acceptBtn.addEventListener('click', () => {
+      this.close();
+      this.options.onAccept();
+    });
+
+    const cancelBtn = buttons.createEl('button', { text: 'Keep editing without saving' });
+    cancelBtn.addEventListener('click', () => this.close());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+export function renderLineDiff(container: HTMLElement, diff: Change[]) {
+  let oldLine = 1;
+  let newLine = 1;
+
+  diff.forEach((part, index) => {
+    const lines = part.value.split('\n');
+    // Remove last empty line from split (if value ends with \n)
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    if (part.removed) {
+      lines.forEach(line => {
+        renderLine(container, 'removed', String(oldLine), '-', line);
+        oldLine++;
+      });
+    } else if (part.added) {
+      lines.forEach(line => {
+        renderLine(container, 'added', String(newLine), '+', line);
+        newLine++;
+      });
+    } else {
+      // Only show a little context around each change
+      const head = index > 0 ? lines.slice(0, CONTEXT_LINES) : [];
+      const tail = index < diff.length - 1 ? lines.slice(-CONTEXT_LINES) : [];
+
+      if (lines.length <= head.length + tail.length) {
+        lines.forEach((line, i) => renderLine(container, 'context', String(newLine + i), ' ', line));
+      } else {
+        head.forEach((line, i) => renderLine(container, 'context', String(newLine + i), ' ', line));
+        const skipped = lines.length - head.length - tail.length;
+        container.createDiv({ cls: 'fidelity-diff-skip', text: `… ${skipped} unchanged lines` });
+        tail.forEach((line, i) => {
+          renderLine(container, 'context', String(newLine + lines.length - tail.length + i), ' ', line);
+        });
+      }
+
+      oldLine += lines.length;
+      newLine += lines.length;
+    }
+  });
+}
+
+function renderLine(container: HTMLElement, type: string, lineNumber: string, sign: string, text: string) {
+  const row = container.createDiv(`fidelity-diff-line is-${type}`);
+  row.createSpan({ cls: 'fidelity-diff-number', text: lineNumber });
+  row.createSpan({ cls: 'fidelity-diff-sign', text: sign });
+  row.createSpan({ cls: 'fidelity-diff-text', text });
+}
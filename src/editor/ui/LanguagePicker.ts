@@ -0,0 +1,98 @@
+/**
+ * Dropdown under a code block's language button with a search box. Typing a
+ * name that isn't in the list and pressing Enter uses it as is.
+ */
+export class LanguagePicker {
+  private element: HTMLElement;
+  private input: HTMLInputElement;
+  private list: HTMLElement;
+  private languages: string[];
+  private matches: string[] = [];
+  private selectedIndex = 0;
+  private onChoose: (language: string) => void;
+  private onDocumentMouseDown = (event: MouseEvent) => {
+    if (!this.element.contains(event.target as HTMLElement)) {
+      this.close();
+    }
+  };
+
+  constructor(anchor: HTMLElement, languages: string[], current: string, onChoose: (language: string) => void) {
+    this.languages = languages;
+    this.onChoose = onChoose;
+
+    this.element = document.body.createDiv({ cls: 'wysiwyg-language-picker' });
+    this.input = this.element.createEl('input', { type: 'text', attr: { placeholder: current || 'Search languages' } });
+    this.list = this.element.createDiv({ cls: 'wysiwyg-language-list' });
+
+    const rect = anchor.getBoundingClientRect();
+    this.element.style.top = `${rect.bottom + 4}px`;
+    this.element.style.left = `${rect.left}px`;
+
+    this.input.addEventListener('input', () => {
+      this.selectedIndex = 0;
+      this.render();
+    });
+    this.input.addEventListener('keydown', (event) => this.onKeyDown(event));
+    document.addEventListener('mousedown', this.onDocumentMouseDown, true);
+
+    this.render();
+    this.input.select();
+    this.input.focus();
+  }
+
+  close() {
+    document.removeEventListener('mousedown', this.onDocumentMouseDown, true);
+    this.element.remove();
+  }
+
+  private render() {
+    const query = this.input.value.trim().toLowerCase();
+    // The exact name first, then languages starting with the query
+    const rank = (language: string) => (language === query ? 0 : language.startsWith(query) ? 1 : 2);
+    this.matches = this.languages
+      .filter(language => language.includes(query))
+      .sort((a, b) => rank(a) - rank(b))
+      .slice(0, 50);
+    if (!query) {
+      // No language at all
+      this.matches.unshift('');
+    }
+
+    this.list.empty();
+    if (this.matches.length === 0) {
+      this.list.createDiv({ cls: 'wysiwyg-language-item empty', text: `Use "${query}"` });
+      return;
+    }
+
+    this.matches.forEach((language, index) => {
+      const item = this.list.createDiv({ cls: 'wysiwyg-language-item', text: language || 'Plain text' });
+      item.toggleClass('selected', index === this.selectedIndex);
+      item.addEventListener('mousedown', (event) => {
+        event.preventDefault();
+        this.choose(language);
+      });
+    });
+
+    this.list.children[this.selectedIndex]?.scrollIntoView({ block: 'nearest' });
+  }
+
+  private onKeyDown(event: KeyboardEvent) {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      this.selectedIndex = (this.selectedIndex + step + this.matches.length) % Math.max(1, this.matches.length);
+      this.render();
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      this.choose(this.matches[this.selectedIndex] ?? this.input.value.trim());
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      this.close();
+    }
+  }
+
+  private choose(language: string) {
+    this.close();
+    this.onChoose(language);
+  }
+}
@@ -0,0 +1,299 @@
+import type { Editor } from '@tiptap/core';
+import { getMarkRange } from '@tiptap/core';
+import { NodeSelection } from '@tiptap/pm/state';
+import { prepareFuzzySearch } from 'obsidian';
+import type { TFile } from 'obsidian';
+import { getWikiLinkDisplayText, toLinkHeading } from '../extensions/WikiLink';
+import type { WYSIWYGView } from '../WYSIWYGView';
+
+type LinkType = 'wikilink' | 'markdown';
+
+interface LinkTarget {
+  // Set for web and other external links
+  url?: string;
+  path: string;
+  subpath: string;
+}
+
+interface LinkResult {
+  target: LinkTarget;
+  label: string;
+  description?: string;
+}
+
+const MAX_RESULTS = 20;
+
+const URL_PATTERN = /^([a-z][a-z0-9+.-]*:|www\.)/i;
+
+function decodeLinkPath(href: string): string {
+  try {
+    return decodeURI(href);
+  } catch {
+    return href;
+  }
+}
+
+// Spaces aren't allowed in markdown link destinations, Obsidian writes them as %20
+function encodeLinkPath(path: string): string {
+  return path.replace(/ /g, '%20');
+}
+
+/**
+ * Popover for adding or changing the link at the selection. The search
+ * finds notes and, after a `#`, their headings; anything that looks like a
+ * URL links to it. Notes can be linked as a wikilink or a markdown link.
+ */
+export class LinkPopover {
+  private view: WYSIWYGView;
+  private editor: Editor;
+  private element: HTMLElement;
+  private textInput: HTMLInputElement;
+  private searchInput: HTMLInputElement;
+  private list: HTMLElement;
+  private typeButtons: Record<LinkType, HTMLElement>;
+  private results: LinkResult[] = [];
+  private selectedIndex = 0;
+  private linkType: LinkType;
+  private range: { from: number; to: number };
+  // Kind of link being edited, null when adding a new one
+  private existing: LinkType | null = null;
+  private onClose: () => void;
+  private onDocumentMouseDown = (event: MouseEvent) => {
+    if (!this.element.contains(event.target as HTMLElement)) {
+      this.close();
+    }
+  };
+
+  constructor(view: WYSIWYGView, editor: Editor, onClose: () => void) {
+    this.view = view;
+    this.editor = editor;
+    this.onClose = onClose;
+
+    const { state } = editor;
+    const { selection } = state;
+    this.range = { from: selection.from, to: selection.to };
+    let text = state.doc.textBetween(selection.from, selection.to);
+    let search = '';
+
+    if (selection instanceof NodeSelection && selection.node.type.name === 'wikilink') {
+      const { path, subpath, alias } = selection.node.attrs;
+      this.existing = 'wikilink';
+      text = alias ?? '';
+      search = `${path}${subpath}`;
+    } else if (editor.isActive('link')) {
+      const range = getMarkRange(selection.$from, state.schema.marks.link);
+      if (range) {
+        this.range = range;
+        text = state.doc.textBetween(range.from, range.to);
+      }
+      this.existing = 'markdown';
+      search = decodeLinkPath(editor.getAttributes('link').href || '');
+    }
+
+    const useMarkdownLinks = view.app.vault.getConfig('useMarkdownLinks') === true;
+    this.linkType = this.existing ?? (useMarkdownLinks ? 'markdown' : 'wikilink');
+
+    this.element = document.body.createDiv({ cls: 'wysiwyg-link-popover' });
+    this.textInput = this.element.createEl('input', { type: 'text', attr: { placeholder: 'Link text' } });
+    this.textInput.value = text;
+    this.searchInput = this.element.createEl('input', { type: 'text', attr: { placeholder: 'Search notes or paste a URL' } });
+    this.searchInput.value = search;
+    this.list = this.element.createDiv({ cls: 'wysiwyg-link-results' });
+
+    const footer = this.element.createDiv({ cls: 'wysiwyg-link-footer' });
+    const types = footer.createDiv({ cls: 'wysiwyg-link-types' });
+    this.typeButtons = {
+      wikilink: types.createEl('button', { text: 'Wikilink' }),
+      markdown: types.createEl('button', { text: 'Markdown link' }),
+    };
+    (Object.keys(this.typeButtons) as LinkType[]).forEach(type => {
+      this.typeButtons[type].addEventListener('click', () => {
+        this.linkType = type;
+        this.renderTypes();
+      });
+    });
+
+    if (this.existing) {
+      const removeButton = footer.createEl('button', { text: 'Remove link', cls: 'mod-warning' });
+      removeButton.addEventListener('click', () => this.remove());
+    }
+    const applyButton = footer.createEl('button', { text: this.existing ? 'Update' : 'Insert', cls: 'mod-cta' });
+    applyButton.addEventListener('click', () => this.apply());
+
+    const coords = editor.view.coordsAtPos(this.range.from);
+    this.element.style.top = `${coords.bottom + 4}px`;
+    this.element.style.left = `${coords.left}px`;
+
+    this.searchInput.addEventListener('input', () => {
+      this.selectedIndex = 0;
+      this.renderResults();
+    });
+    this.searchInput.addEventListener('keydown', (event) => this.onKeyDown(event));
+    this.textInput.addEventListener('keydown', (event) => this.onKeyDown(event));
+    document.addEventListener('mousedown', this.onDocumentMouseDown, true);
+
+    this.renderTypes();
+    this.renderResults();
+    this.searchInput.select();
+    this.searchInput.focus();
+  }
+
+  close() {
+    document.removeEventListener('mousedown', this.onDocumentMouseDown, true);
+    this.element.remove();
+    this.onClose();
+  }
+
+  private get sourcePath(): string {
+    return this.view.file?.path || '';
+  }
+
+  private search(query: string): LinkResult[] {
+    const { vault, metadataCache } = this.view.app;
+    query = query.trim();
+
+    if (URL_PATTERN.test(query)) {
+      const url = query.toLowerCase().startsWith('www.') ? `https://${query}` : query;
+      return [{ target: { url, path: '', subpath: '' }, label: url, description: 'Link to URL' }];
+    }
+
+    // `Note#Heading`, or `#Heading` for this note
+    const hash = query.indexOf('#');
+    if (hash !== -1) {
+      const path = query.slice(0, hash);
+      const file = path ? metadataCache.getFirstLinkpathDest(path, this.sourcePath) : this.view.file;
+      const headingQuery = query.slice(hash + 1).toLowerCase();
+      const headings = file ? metadataCache.getFileCache(file)?.headings || [] : [];
+      return headings
+        .filter(heading => heading.heading.toLowerCase().includes(headingQuery))
+        .slice(0, MAX_RESULTS)
+        .map(heading => ({
+          target: { path, subpath: `#${toLinkHeading(heading.heading)}` },
+          label: `${'#'.repeat(heading.level)} ${heading.heading}`,
+          description: file?.basename,
+        }));
+    }
+
+    const search = prepareFuzzySearch(query);
+    const recent = this.view.app.workspace.getLastOpenFiles();
+    return vault.getMarkdownFiles()
+      .map(file => {
+        const match = query ? search(file.basename) || search(file.path.slice(0, -3)) : { score: recent.includes(file.path) ? -recent.indexOf(file.path) : -Infinity };
+        return { file, score: match?.score };
+      })
+      .filter((result): result is { file: TFile; score: number } => result.score !== undefined)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS)
+      .map(({ file }) => ({
+        target: { path: metadataCache.fileToLinktext(file, this.sourcePath, true), subpath: '' },
+        label: file.basename,
+        description: file.parent && !file.parent.isRoot() ? file.parent.path : undefined,
+      }));
+  }
+
+  private renderResults() {
+    this.results = this.search(this.searchInput.value);
+    this.list.empty();
+
+    this.results.forEach((result, index) => {
+      const item = this.list.createDiv({ cls: 'wysiwyg-link-result' });
+      item.createSpan({ cls: 'wysiwyg-link-result-label', text: result.label });
+      if (result.description) {
+        item.createSpan({ cls: 'wysiwyg-link-result-description', text: result.description });
+      }
+      item.toggleClass('selected', index === this.selectedIndex);
+      item.addEventListener('mousedown', (event) => {
+        event.preventDefault();
+        this.apply(result.target);
+      });
+    });
+
+    this.list.children[this.selectedIndex]?.scrollIntoView({ block: 'nearest' });
+    this.renderTypes();
+  }
+
+  private renderTypes() {
+    // URLs can only be markdown links
+    const isUrl = this.results[this.selectedIndex]?.target.url !== undefined;
+    (Object.keys(this.typeButtons) as LinkType[]).forEach(type => {
+      this.typeButtons[type].toggleClass('is-active', isUrl ? type === 'markdown' : type === this.linkType);
+      this.typeButtons[type].toggleAttribute('disabled', isUrl);
+    });
+  }
+
+  private onKeyDown(event: KeyboardEvent) {
+    if ((event.key === 'ArrowDown' || event.key === 'ArrowUp') && event.target === this.searchInput) {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      this.selectedIndex = (this.selectedIndex + step + this.results.length) % Math.max(1, this.results.length);
+      this.renderResults();
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      this.apply();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      this.close();
+      this.editor.commands.focus();
+    }
+  }
+
+  // Link to the given target, the selected result or the search text as typed
+  private apply(target?: LinkTarget) {
+    const query = this.searchInput.value.trim();
+    target = target ?? this.results[this.selectedIndex]?.target;
+    if (!target) {
+      if (!query) return;
+      const hash = query.indexOf('#');
+      target = {
+        path: hash === -1 ? query : query.slice(0, hash),
+        subpath: hash === -1 ? '' : query.slice(hash),
+      };
+    }
+
+    const text = this.textInput.value.trim();
+    const marks = this.formattingMarks();
+    const chain = this.editor.chain().focus().deleteRange(this.range);
+
+    if (target.url === undefined && this.linkType === 'wikilink') {
+      const alias = text && text !== getWikiLinkDisplayText(target.path, target.subpath) ? text : null;
+      chain.insertContentAt(this.range.from, { type: 'wikilink', attrs: { path: target.path, subpath: target.subpath, alias }, marks });
+    } else {
+      const href = target.url ?? this.markdownHref(target);
+      const label = text || target.url || getWikiLinkDisplayText(target.path, target.subpath);
+      chain.insertContentAt(this.range.from, { type: 'text', text: label, marks: [...marks, { type: 'link', attrs: { href } }] });
+    }
+
+    chain.run();
+    this.close();
+  }
+
+  // Bold, italic and the like at the start of the selection, carried over to the link
+  private formattingMarks() {
+    const { doc } = this.editor.state;
+    const { from, to } = this.range;
+    const marks = (from < to ? doc.nodeAt(from)?.marks : null) ?? doc.resolve(from).marks();
+    return marks.filter(mark => mark.type.name !== 'link').map(mark => mark.toJSON());
+  }
+
+  // Notes are linked with their extension, the way Obsidian writes markdown links
+  private markdownHref(target: LinkTarget): string {
+    const { metadataCache } = this.view.app;
+    const file = target.path ? metadataCache.getFirstLinkpathDest(target.path, this.sourcePath) : null;
+    const path = file ? metadataCache.fileToLinktext(file, this.sourcePath, false) : target.path && `${target.path}.md`;
+    return encodeLinkPath(path + target.subpath);
+  }
+
+  // Turns the link back into its text
+  private remove() {
+    if (this.existing === 'wikilink') {
+      const node = this.editor.state.doc.nodeAt(this.range.from);
+      const text = node ? node.attrs.alias ?? getWikiLinkDisplayText(node.attrs.path, node.attrs.subpath) : '';
+      const chain = this.editor.chain().focus().deleteRange(this.range);
+      if (text) chain.insertContentAt(this.range.from, { type: 'text', text });
+      chain.run();
+    } else {
+      this.editor.chain().focus().setTextSelection(this.range).unsetLink().run();
+    }
+    this.close();
+  }
+}
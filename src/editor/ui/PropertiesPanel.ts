@@ -1,15 +1,39 @@
+import { App, setIcon } from 'obsidian';
+
+// Property types from Obsidian's property type registry
+export type PropertyType = 'text' | 'multitext' | 'tags' | 'aliases' | 'number' | 'checkbox' | 'date' | 'datetime';
+
+const TYPE_ICONS: Record<PropertyType, string> = {
+  text: 'text',
+  multitext: 'list',
+  tags: 'tags',
+  aliases: 'forward',
+  number: 'binary',
+  checkbox: 'check-square',
+  date: 'calendar',
+  datetime: 'clock',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
 export class PropertiesPanel {
+  private app: App;
   private container: HTMLElement;
   private properties: Record<string, any>;
   private onChange: (properties: Record<string, any>) => void;
   private isExpanded: boolean = false;
   private contentEl: HTMLElement | null = null;
+  // Set while the note's YAML doesn't parse, editing would lose what it holds
+  private readOnly = false;
 
   constructor(
+    app: App,
     container: HTMLElement,
     properties: Record<string, any>,
     onChange: (properties: Record<string, any>) => void
   ) {
+    this.app = app;
     this.container = container;
     this.properties = properties;
     this.onChange = onChange;
@@ -39,6 +63,12 @@ export class PropertiesPanel {
     const count = Object.keys(this.properties).length;
     title.setText(`Properties ${count > 0 ? `(${count})` : ''}`);
 
+    if (this.readOnly) {
+      const notice = this.container.createDiv('properties-invalid');
+      notice.setText('The properties of this note are not valid YAML. Fix them in the source view to edit them here.');
+      return;
+    }
+
     // Create add button
     const addBtn = header.createSpan('properties-add-btn');
     addBtn.setText('+');
@@ -61,6 +91,12 @@ export class PropertiesPanel {
 
     for (const [key, value] of Object.entries(this.properties)) {
       const row = this.contentEl.createDiv('property-row');
+      const type = this.getPropertyType(key, value);
+      row.dataset.type = type;
+
+      const icon = row.createSpan('property-icon');
+      setIcon(icon, TYPE_ICONS[type]);
+      icon.setAttribute('aria-label', type);
 
       // Key input
       const keyInput = row.createEl('input', {
@@ -72,26 +108,20 @@ export class PropertiesPanel {
       keyInput.addEventListener('change', () => {
         const newKey = keyInput.value;
         if (newKey !== key && newKey) {
-          const newProps = { ...this.properties };
-          delete newProps[key];
-          newProps[newKey] = value;
+          // Rebuild so the renamed property keeps its position
+          const newProps: Record<string, any> = {};
+          for (const [k, v] of Object.entries(this.properties)) {
+            newProps[k === key ? newKey : k] = v;
+          }
           this.properties = newProps;
           this.onChange(this.properties);
           this.renderProperties();
         }
       });
 
-      // Value input
-      const valueInput = row.createEl('input', {
-        type: 'text',
-        value: String(value),
-        cls: 'property-value',
-      });
-
-      valueInput.addEventListener('change', () => {
-        this.properties[key] = valueInput.value;
-        this.onChange(this.properties);
-      });
+      // Value editor, picked from the property's type
+      const valueEl = row.createDiv('property-value');
+      this.renderValueEditor(valueEl, key, value);
 
       // Delete button
       const deleteBtn = row.createSpan('property-delete');
@@ -111,6 +141,202 @@ export class PropertiesPanel {
     }
   }
 
+  // Type Obsidian assigned to the property, or a guess from the YAML value
+  private getPropertyType(key: string, value: any): PropertyType {
+    const assigned = this.app.metadataTypeManager?.getAssignedType(key);
+    if (assigned && assigned in TYPE_ICONS) {
+      return assigned as PropertyType;
+    }
+
+    const lowerKey = key.toLowerCase();
+    if (lowerKey === 'tags' || lowerKey === 'aliases') return lowerKey;
+    if (Array.isArray(value)) return 'multitext';
+    if (typeof value === 'boolean') return 'checkbox';
+    if (typeof value === 'number') return 'number';
+    if (value instanceof Date) {
+      return value.getUTCHours() || value.getUTCMinutes() ? 'datetime' : 'date';
+    }
+    if (typeof value === 'string') {
+      if (DATE_PATTERN.test(value)) return 'date';
+      if (DATETIME_PATTERN.test(value)) return 'datetime';
+    }
+    return 'text';
+  }
+
+  private renderValueEditor(container: HTMLElement, key: string, value: any) {
+    container.empty();
+    const type = this.getPropertyType(key, value);
+
+    // Nested maps and lists of objects have no editor, leave them alone
+    if (value !== null && typeof value === 'object' && !(value instanceof Date) &&
+        !(Array.isArray(value) && value.every(item => item === null || typeof item !== 'object'))) {
+      container.createDiv({ cls: 'property-value-readonly', text: JSON.stringify(value) });
+      return;
+    }
+
+    switch (type) {
+      case 'multitext':
+      case 'tags':
+      case 'aliases':
+        this.renderListEditor(container, key, value, type);
+        break;
+      case 'checkbox':
+        this.renderCheckboxEditor(container, key, value);
+        break;
+      case 'number':
+        this.renderNumberEditor(container, key, value);
+        break;
+      case 'date':
+      case 'datetime':
+        this.renderDateEditor(container, key, value, type);
+        break;
+      default:
+        this.renderTextEditor(container, key, value);
+    }
+  }
+
+  private renderTextEditor(container: HTMLElement, key: string, value: any) {
+    const input = container.createEl('textarea', { cls: 'property-text' });
+    input.value = value === null || value === undefined ? '' : String(value);
+    input.rows = 1;
+
+    const resize = () => {
+      input.style.height = 'auto';
+      input.style.height = `${input.scrollHeight}px`;
+    };
+    input.addEventListener('input', resize);
+    requestAnimationFrame(resize);
+
+    input.addEventListener('change', () => {
+      // Keep an empty `key:` empty instead of turning it into `key: ""`
+      if (input.value === '' && (value === null || value === undefined)) return;
+      // Numbers and booleans typed into a text property stay that type if unchanged
+      if (input.value === String(value)) return;
+      this.setValue(key, input.value);
+    });
+  }
+
+  private renderListEditor(container: HTMLElement, key: string, value: any, type: PropertyType) {
+    const items = this.toList(value);
+    const list = container.createDiv('property-list');
+
+    items.forEach((item, index) => {
+      const chip = list.createSpan(`property-chip${type === 'tags' ? ' is-tag' : ''}`);
+      chip.createSpan({ cls: 'property-chip-text', text: String(item) });
+      const remove = chip.createSpan({ cls: 'property-chip-remove', text: '×' });
+      remove.addEventListener('click', () => {
+        const next = items.filter((_, i) => i !== index);
+        this.setValue(key, next);
+        this.renderValueEditor(container, key, next);
+      });
+    });
+
+    const input = list.createEl('input', {
+      type: 'text',
+      cls: 'property-list-input',
+      attr: { placeholder: items.length ? '' : 'Empty' },
+    });
+
+    const commit = () => {
+      const added = input.value
+        .split(',')
+        .map(item => item.trim())
+        .map(item => (type === 'tags' ? item.replace(/^#/, '') : item))
+        .filter(Boolean);
+      // Clear first, re-rendering blurs the input and would add them twice
+      input.value = '';
+      if (added.length === 0) return;
+
+      const next = [...items, ...added];
+      this.setValue(key, next);
+      this.renderValueEditor(container, key, next);
+      container.querySelector<HTMLInputElement>('.property-list-input')?.focus();
+    };
+
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' || e.key === ',') {
+        e.preventDefault();
+        commit();
+      } else if (e.key === 'Backspace' && input.value === '' && items.length > 0) {
+        const next = items.slice(0, -1);
+        this.setValue(key, next);
+        this.renderValueEditor(container, key, next);
+        container.querySelector<HTMLInputElement>('.property-list-input')?.focus();
+      }
+    });
+    input.addEventListener('blur', commit);
+  }
+
+  private renderCheckboxEditor(container: HTMLElement, key: string, value: any) {
+    const input = container.createEl('input', { type: 'checkbox', cls: 'property-checkbox' });
+    input.checked = value === true || value === 'true';
+    input.addEventListener('change', () => {
+      this.setValue(key, input.checked);
+    });
+  }
+
+  private renderNumberEditor(container: HTMLElement, key: string, value: any) {
+    const input = container.createEl('input', { type: 'number', cls: 'property-number' });
+    input.value = value === null || value === undefined ? '' : String(value);
+    input.addEventListener('change', () => {
+      if (input.value === '') {
+        this.setValue(key, null);
+        return;
+      }
+      const number = Number(input.value);
+      if (!isNaN(number)) {
+        this.setValue(key, number);
+      }
+    });
+  }
+
+  private renderDateEditor(container: HTMLElement, key: string, value: any, type: PropertyType) {
+    const isDateTime = type === 'datetime';
+    const input = container.createEl('input', {
+      type: isDateTime ? 'datetime-local' : 'date',
+      cls: 'property-date',
+    });
+
+    let text = '';
+    if (value instanceof Date) {
+      text = value.toISOString().slice(0, isDateTime ? 19 : 10);
+    } else if (typeof value === 'string') {
+      text = value;
+    }
+    // Show seconds only if the note already has them
+    if (isDateTime && /:\d{2}:\d{2}/.test(text)) {
+      input.step = '1';
+    }
+    input.value = isDateTime ? text.slice(0, 19) : text.slice(0, 10);
+
+    input.addEventListener('change', () => {
+      if (!input.value) {
+        this.setValue(key, null);
+      } else if (value instanceof Date) {
+        // The YAML had an unquoted timestamp, write one back
+        this.setValue(key, new Date(`${input.value}${isDateTime ? '' : 'T00:00'}Z`));
+      } else {
+        this.setValue(key, input.value);
+      }
+    });
+  }
+
+  // Items keep their YAML type, a list of numbers stays numbers when it's edited
+  private toList(value: any): unknown[] {
+    if (Array.isArray(value)) {
+      return value.filter(item => item !== null && item !== undefined);
+    }
+    if (value === null || value === undefined || value === '') {
+      return [];
+    }
+    return String(value).split(',').map(item => item.trim()).filter(Boolean);
+  }
+
+  private setValue(key: string, value: any) {
+    this.properties[key] = value;
+    this.onChange(this.properties);
+  }
+
   addProperty() {
     this.isExpanded = true;
     const newKey = `property${Object.keys(this.properties).length + 1}`;
@@ -119,8 +345,9 @@ export class PropertiesPanel {
     this.render();
   }
 
-  update(properties: Record<string, any>) {
+  update(properties: Record<string, any>, readOnly = false) {
     this.properties = properties;
+    this.readOnly = readOnly;
     this.render();
   }
 }
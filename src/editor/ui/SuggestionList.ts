@@ -47,6 +47,7 @@ export class SuggestionList {
                data-index="${index}">
             <span class="suggestion-icon">${icon}</span>
             <span class="suggestion-label">${label}</span>
+            ${item.description ? `<span class="suggestion-description">${item.description}</span>` : ''}
           </div>
         `;
       })
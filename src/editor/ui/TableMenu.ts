@@ -0,0 +1,120 @@
+import type { Editor } from '@tiptap/core';
+import type { EditorView } from '@tiptap/pm/view';
+import { TableMap } from '@tiptap/pm/tables';
+import { setIcon } from 'obsidian';
+import type { ColumnAlignment } from '../extensions/CustomTable';
+
+interface TableMenuItem {
+  icon: string;
+  label: string;
+  run: () => void;
+}
+
+/**
+ * Toolbar shown above the table the cursor is in, for the edits that have
+ * no markdown syntax to type: rows, columns, alignment and removing the table.
+ */
+export class TableMenu {
+  private view: EditorView;
+  private element: HTMLElement;
+
+  constructor(editor: Editor, view: EditorView) {
+    this.view = view;
+    this.element = createDiv({ cls: 'wysiwyg-table-menu' });
+    this.element.hide();
+
+    const groups: TableMenuItem[][] = [
+      [
+        { icon: 'arrow-up-to-line', label: 'Add row above', run: () => editor.chain().focus().addRowBefore().run() },
+        { icon: 'arrow-down-to-line', label: 'Add row below', run: () => editor.chain().focus().addRowAfter().run() },
+        { icon: 'arrow-left-to-line', label: 'Add column before', run: () => editor.chain().focus().addColumnBefore().run() },
+        { icon: 'arrow-right-to-line', label: 'Add column after', run: () => editor.chain().focus().addColumnAfter().run() },
+      ],
+      [
+        { icon: 'align-left', label: 'Align column left', run: () => this.alignColumn('left') },
+        { icon: 'align-center', label: 'Align column center', run: () => this.alignColumn('center') },
+        { icon: 'align-right', label: 'Align column right', run: () => this.alignColumn('right') },
+      ],
+      [
+        { icon: 'rows-3', label: 'Delete row', run: () => editor.chain().focus().deleteRow().run() },
+        { icon: 'columns-3', label: 'Delete column', run: () => editor.chain().focus().deleteColumn().run() },
+        { icon: 'trash-2', label: 'Delete table', run: () => editor.chain().focus().deleteTable().run() },
+      ],
+    ];
+
+    groups.forEach(items => {
+      const group = this.element.createDiv({ cls: 'wysiwyg-table-menu-group' });
+      items.forEach(item => {
+        const button = group.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': item.label } });
+        setIcon(button, item.icon);
+        // Keep the selection in the cell
+        button.addEventListener('mousedown', (event) => event.preventDefault());
+        button.addEventListener('click', () => item.run());
+      });
+    });
+
+    view.dom.parentElement?.appendChild(this.element);
+    this.update(view);
+  }
+
+  update(view: EditorView) {
+    this.view = view;
+    const table = this.findTable();
+    const tableDom = table && view.editable ? view.nodeDOM(table.pos) : null;
+
+    if (!(tableDom instanceof HTMLElement) || !this.element.parentElement) {
+      this.element.hide();
+      return;
+    }
+
+    this.element.show();
+    const containerRect = this.element.parentElement.getBoundingClientRect();
+    const tableRect = tableDom.getBoundingClientRect();
+    this.element.style.top = `${tableRect.top - containerRect.top - this.element.offsetHeight - 4}px`;
+    this.element.style.left = `${tableRect.left - containerRect.left}px`;
+  }
+
+  destroy() {
+    this.element.remove();
+  }
+
+  // The table around the selection and its position
+  private findTable(): { pos: number; depth: number } | null {
+    const { $from } = this.view.state.selection;
+    for (let depth = $from.depth; depth > 0; depth--) {
+      if ($from.node(depth).type.spec.tableRole === 'table') {
+        return { pos: $from.before(depth), depth };
+      }
+    }
+    return null;
+  }
+
+  // Alignment is per column in markdown, so it's set on every cell of the column
+  private alignColumn(align: ColumnAlignment) {
+    const { state } = this.view;
+    const { $from } = state.selection;
+    const table = this.findTable();
+    if (!table || $from.depth < table.depth + 2) return;
+
+    const tableNode = $from.node(table.depth);
+    const tableStart = $from.start(table.depth);
+    const cellPos = $from.before(table.depth + 2) - tableStart;
+    const map = TableMap.get(tableNode);
+    const column = map.colCount(cellPos);
+
+    // Toggling the alignment a column already has goes back to the default
+    const current = tableNode.nodeAt(cellPos)?.attrs.align ?? null;
+    const value = current === align ? null : align;
+
+    const tr = state.tr;
+    map.cellsInRect({ left: column, right: column + 1, top: 0, bottom: map.height }).forEach(pos => {
+      const cell = tableNode.nodeAt(pos);
+      if (cell) {
+        tr.setNodeMarkup(tableStart + pos, undefined, { ...cell.attrs, align: value });
+      }
+    });
+
+    this.view.dispatch(tr);
+    this.view.focus();
+  }
+}
@@ -0,0 +1,64 @@
+import type { NodeRange, Node as ProseMirrorNode, ResolvedPos } from '@tiptap/pm/model';
+
+export interface Block {
+  node: ProseMirrorNode;
+  pos: number;
+}
+
+// Nodes that only hold other blocks, their children get the handles
+const CONTAINERS = ['bulletList', 'orderedList', 'taskList'];
+
+const LIST_ITEMS = ['listItem', 'taskItem'];
+
+// Moved, copied and linked as a whole, like tables
+const WHOLE_BLOCKS = ['blockquote', 'callout'];
+
+/**
+ * The block a handle belongs to at a position: the innermost block that
+ * isn't a list, with a list item's first paragraph standing for the item
+ * and anything in a table, quote or callout for the whole of it.
+ */
+export function findBlock($pos: ResolvedPos): Block | null {
+  for (let depth = 1; depth <= $pos.depth; depth++) {
+    const node = $pos.node(depth);
+    if (node.type.spec.tableRole === 'table' || WHOLE_BLOCKS.includes(node.type.name)) {
+      return { node, pos: $pos.before(depth) };
+    }
+  }
+
+  for (let depth = $pos.depth; depth > 0; depth--) {
+    const node = $pos.node(depth);
+    if (CONTAINERS.includes(node.type.name)) continue;
+
+    const parent = $pos.node(depth - 1);
+    if (LIST_ITEMS.includes(parent.type.name) && $pos.index(depth - 1) === 0) {
+      return { node: parent, pos: $pos.before(depth - 1) };
+    }
+    return { node, pos: $pos.before(depth) };
+  }
+  return null;
+}
+
+// Block at a position, or for one between blocks, like the ends of a node selection, the block on the given side
+function blockBeside($pos: ResolvedPos, side: -1 | 1): Block | null {
+  if ($pos.parent.inlineContent) return findBlock($pos);
+
+  const node = side < 0 ? $pos.nodeBefore : $pos.nodeAfter;
+  if (!node) return null;
+  if (node.isAtom) return { node, pos: side < 0 ? $pos.pos - node.nodeSize : $pos.pos };
+  return findBlock($pos.doc.resolve($pos.pos + side));
+}
+
+/**
+ * The sibling blocks a selection covers: from the block at its start to the
+ * one at its end, widened to the level where they share a parent.
+ */
+export function findBlockRange($from: ResolvedPos, $to: ResolvedPos): NodeRange | null {
+  const first = blockBeside($from, 1);
+  const last = blockBeside($to, -1);
+  if (!first || !last) return null;
+
+  const { doc } = $from;
+  const end = Math.max(first.pos + first.node.nodeSize, last.pos + last.node.nodeSize);
+  return doc.resolve(first.pos).blockRange(doc.resolve(end));
+}
@@ -0,0 +1,185 @@
+import { getFrontMatterInfo, parseYaml, stringifyYaml } from 'obsidian';
+
+export interface NoteParts {
+  // YAML between the --- delimiters exactly as it was read, '' without frontmatter
+  yaml: string;
+  // Everything before the YAML (the opening ---) and between it and the body
+  yamlPrefix: string;
+  yamlSuffix: string;
+  hasFrontmatter: boolean;
+  // Parsed YAML as it was read, used to tell which keys were edited
+  data: Record<string, any>;
+  // The YAML didn't parse, it's written back exactly as it was read
+  invalidYaml: boolean;
+  body: string;
+}
+
+// One top level key and the lines that belong to it, or a standalone comment/blank line
+interface YamlEntry {
+  key: string | null;
+  text: string;
+}
+
+export function splitNote(content: string): NoteParts {
+  const info = getFrontMatterInfo(content);
+  if (!info.exists) {
+    return {
+      yaml: '',
+      yamlPrefix: '',
+      yamlSuffix: '',
+      hasFrontmatter: false,
+      data: {},
+      invalidYaml: false,
+      body: content,
+    };
+  }
+
+  const yaml = content.slice(info.from, info.to);
+  const data = parseFrontmatter(yaml);
+  return {
+    yaml,
+    yamlPrefix: content.slice(0, info.from),
+    yamlSuffix: content.slice(info.to, info.contentStart),
+    hasFrontmatter: true,
+    data: data ?? {},
+    invalidYaml: data === null,
+    body: content.slice(info.contentStart),
+  };
+}
+
+// Properties in the YAML, null if it isn't valid YAML or not a mapping of properties
+export function parseFrontmatter(yaml: string): Record<string, any> | null {
+  try {
+    const data = parseYaml(yaml);
+    if (data === null || data === undefined) return {};
+    return typeof data === 'object' && !Array.isArray(data) ? data : null;
+  } catch (error) {
+    console.error('parseFrontmatter: invalid YAML, leaving it untouched', error);
+    return null;
+  }
+}
+
+/**
+ * Put a note back together. Keys whose value didn't change keep their
+ * original text (comments, quoting, ordering), only edited keys are written
+ * out again.
+ */
+export function joinNote(parts: NoteParts, data: Record<string, any>, body: string): string {
+  const hasKeys = Object.keys(data).length > 0;
+
+  if (!parts.hasFrontmatter) {
+    return hasKeys ? `---\n${stringifyYaml(data)}---\n${body}` : body;
+  }
+
+  // Nothing could be edited, and rewriting it would drop every key
+  if (parts.invalidYaml) {
+    return parts.yamlPrefix + parts.yaml + parts.yamlSuffix + body;
+  }
+
+  const yaml = updateYaml(parts.yaml, parts.data, data);
+  return parts.yamlPrefix + yaml + parts.yamlSuffix + body;
+}
+
+export function updateYaml(yaml: string, original: Record<string, any>, data: Record<string, any>): string {
+  const entries = splitYamlEntries(yaml);
+  const originalKeys = Object.keys(original);
+  const keys = Object.keys(data);
+  const seen = new Set<string>();
+  let out = '';
+
+  for (const entry of entries) {
+    if (entry.key === null) {
+      out += entry.text;
+      continue;
+    }
+
+    seen.add(entry.key);
+    if (!(entry.key in data)) {
+      // A new key in the removed key's slot is a rename, write it in place
+      const renamed = keys[originalKeys.indexOf(entry.key)];
+      if (renamed !== undefined && !(renamed in original) && !seen.has(renamed)) {
+        seen.add(renamed);
+        out += ensureNewline(stringifyYaml({ [renamed]: data[renamed] }));
+      }
+      continue;
+    }
+
+    if (entry.key in original && isEqual(original[entry.key], data[entry.key])) {
+      out += entry.text;
+    } else {
+      out += ensureNewline(stringifyYaml({ [entry.key]: data[entry.key] }));
+    }
+  }
+
+  for (const key of keys) {
+    if (!seen.has(key)) {
+      out = ensureNewline(out) + ensureNewline(stringifyYaml({ [key]: data[key] }));
+    }
+  }
+
+  return out;
+}
+
+function splitYamlEntries(yaml: string): YamlEntry[] {
+  const entries: YamlEntry[] = [];
+  const lines = yaml.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+  for (const line of lines) {
+    const key = getTopLevelKey(line);
+    const current = entries[entries.length - 1];
+
+    if (key !== null) {
+      entries.push({ key, text: line });
+    } else if (current && current.key !== null && isContinuation(line)) {
+      // Indented values, block sequences and blank lines inside a value
+      current.text += line;
+    } else {
+      entries.push({ key: null, text: line });
+    }
+  }
+
+  // Blank lines after a value are separators, not part of the value
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.key === null) continue;
+
+    const trailing = entry.text.match(/(?:\n[ \t]*)+\n$/);
+    if (trailing && trailing.index !== undefined) {
+      entries.splice(i + 1, 0, { key: null, text: trailing[0].slice(1) });
+      entry.text = entry.text.slice(0, trailing.index + 1);
+    }
+  }
+
+  return entries;
+}
+
+function getTopLevelKey(line: string): string | null {
+  const match = line.match(/^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s#\-"'][^:]*?|-[^\s:][^:]*?))\s*:(?:\s|$)/);
+  if (!match) return null;
+  if (match[1] !== undefined) return match[1].replace(/\\(.)/g, '$1');
+  if (match[2] !== undefined) return match[2].replace(/''/g, "'");
+  return match[3];
+}
+
+function isContinuation(line: string): boolean {
+  return /^[ \t]/.test(line) || /^-(\s|$)/.test(line) || line.trim() === '';
+}
+
+function ensureNewline(text: string): string {
+  return text && !text.endsWith('\n') ? text + '\n' : text;
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key => isEqual(a[key], b[key]));
+}
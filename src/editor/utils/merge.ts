@@ -0,0 +1,177 @@
+import * as Diff from 'diff';
+
+export interface MergeConflict {
+  base: string;
+  ours: string;
+  theirs: string;
+}
+
+export type MergeChunk =
+  | { type: 'ok'; text: string }
+  | { type: 'conflict'; conflict: MergeConflict };
+
+export type ConflictChoice = 'ours' | 'theirs' | 'both';
+
+// A change from one side, replacing base lines [start, end) with `lines`
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Line based three-way merge (diff3 style). Changes that touch the same or
+ * adjacent base lines on both sides are reported as conflicts unless both
+ * sides made the exact same change.
+ */
+export function threeWayMerge(base: string, ours: string, theirs: string): MergeChunk[] {
+  const baseLines = splitLines(base);
+  const ourHunks = getHunks(baseLines, splitLines(ours));
+  const theirHunks = getHunks(baseLines, splitLines(theirs));
+
+  const chunks: MergeChunk[] = [];
+  let basePos = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < ourHunks.length || j < theirHunks.length) {
+    const start = Math.min(
+      ourHunks[i]?.start ?? Infinity,
+      theirHunks[j]?.start ?? Infinity
+    );
+
+    if (start > basePos) {
+      pushText(chunks, baseLines.slice(basePos, start).join(''));
+    }
+
+    // Collect every hunk from both sides that overlaps the current group
+    const ourGroup: Hunk[] = [];
+    const theirGroup: Hunk[] = [];
+    let end = start;
+    let grew = true;
+    while (grew) {
+      grew = false;
+      while (i < ourHunks.length && ourHunks[i].start <= end) {
+        end = Math.max(end, ourHunks[i].end);
+        ourGroup.push(ourHunks[i++]);
+        grew = true;
+      }
+      while (j < theirHunks.length && theirHunks[j].start <= end) {
+        end = Math.max(end, theirHunks[j].end);
+        theirGroup.push(theirHunks[j++]);
+        grew = true;
+      }
+    }
+
+    const baseText = baseLines.slice(start, end).join('');
+    const ourText = applyHunks(baseLines, start, end, ourGroup);
+    const theirText = applyHunks(baseLines, start, end, theirGroup);
+
+    if (theirGroup.length === 0 || ourText === theirText) {
+      pushText(chunks, ourText);
+    } else if (ourGroup.length === 0) {
+      pushText(chunks, theirText);
+    } else {
+      chunks.push({
+        type: 'conflict',
+        conflict: { base: baseText, ours: ourText, theirs: theirText },
+      });
+    }
+
+    basePos = end;
+  }
+
+  if (basePos < baseLines.length) {
+    pushText(chunks, baseLines.slice(basePos).join(''));
+  }
+
+  return chunks;
+}
+
+export function hasConflicts(chunks: MergeChunk[]): boolean {
+  return chunks.some(chunk => chunk.type === 'conflict');
+}
+
+/**
+ * Build the merged text, picking a side for every conflict. Conflicts without
+ * an explicit choice keep our version.
+ */
+export function resolveMerge(chunks: MergeChunk[], choices: ConflictChoice[] = []): string {
+  let conflictIndex = 0;
+
+  return chunks
+    .map(chunk => {
+      if (chunk.type === 'ok') {
+        return chunk.text;
+      }
+
+      const { ours, theirs } = chunk.conflict;
+      switch (choices[conflictIndex++] ?? 'ours') {
+        case 'theirs':
+          return theirs;
+        case 'both':
+          return ours + (ours && !ours.endsWith('\n') ? '\n' : '') + theirs;
+        default:
+          return ours;
+      }
+    })
+    .join('');
+}
+
+// Split into lines, keeping the line endings so joining gives back the input
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function getHunks(base: string[], other: string[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let pos = 0;
+  let current: Hunk | null = null;
+
+  for (const part of Diff.diffArrays(base, other)) {
+    if (part.added) {
+      current = current || { start: pos, end: pos, lines: [] };
+      current.lines.push(...part.value);
+    } else if (part.removed) {
+      current = current || { start: pos, end: pos, lines: [] };
+      pos += part.value.length;
+      current.end = pos;
+    } else {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      pos += part.value.length;
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+
+  return hunks;
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string {
+  const out: string[] = [];
+  let pos = start;
+
+  for (const hunk of hunks) {
+    out.push(...base.slice(pos, hunk.start), ...hunk.lines);
+    pos = hunk.end;
+  }
+  out.push(...base.slice(pos, end));
+
+  return out.join('');
+}
+
+function pushText(chunks: MergeChunk[], text: string) {
+  if (!text) return;
+
+  const last = chunks[chunks.length - 1];
+  if (last?.type === 'ok') {
+    last.text += text;
+  } else {
+    chunks.push({ type: 'ok', text });
+  }
+}
@@ -0,0 +1,30 @@
+import { App, Notice, TFile, normalizePath } from 'obsidian';
+
+/**
+ * Create the note an unresolved link points to. Links with a folder are
+ * created at that path, plain names go where Obsidian's "Default location
+ * for new notes" says. Returns the existing file if there already is one.
+ */
+export async function createNoteForLink(app: App, linkpath: string, sourcePath: string): Promise<TFile | null> {
+  const fileName = linkpath.toLowerCase().endsWith('.md') ? linkpath : `${linkpath}.md`;
+  const path = normalizePath(linkpath.includes('/')
+    ? fileName
+    : `${app.fileManager.getNewFileParent(sourcePath, fileName).path}/${fileName}`);
+
+  const existing = app.vault.getAbstractFileByPath(path);
+  if (existing) {
+    return existing instanceof TFile ? existing : null;
+  }
+
+  try {
+    const folder = path.split('/').slice(0, -1).join('/');
+    if (folder && !app.vault.getAbstractFileByPath(folder)) {
+      await app.vault.createFolder(folder);
+    }
+    return await app.vault.create(path, '');
+  } catch (error) {
+    console.error('createNoteForLink: failed to create note', error);
+    new Notice(`Could not create "${path}"`);
+    return null;
+  }
+}
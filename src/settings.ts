@@ -0,0 +1,178 @@
+import { App, PluginSettingTab, Setting } from 'obsidian';
+import type WYSIWYGPlugin from '../main';
+
+export type ListMarker = '-' | '*' | '+';
+
+export type EditorMode = 'native' | 'wysiwyg';
+
+export interface WYSIWYGSettings {
+  // Open every markdown leaf in the WYSIWYG view
+  replaceMarkdownViews: boolean;
+  // Folder globs that always open in the native editor
+  excludedFolders: string[];
+  // Frontmatter key whose value picks the editor for a note, e.g. `editor: source`
+  editorFrontmatterKey: string;
+  // Editor chosen per note with the open in native/WYSIWYG commands, by path
+  fileEditorModes: Record<string, EditorMode>;
+  saveDebounceMs: number;
+  // Folder for pasted images, empty to use Obsidian's attachment location
+  attachmentFolder: string;
+  // File name for pasted images, without extension
+  pastedImageName: string;
+  placeholder: string;
+  bulletListMarker: ListMarker;
+  taskListMarker: ListMarker;
+}
+
+export const DEFAULT_SETTINGS: WYSIWYGSettings = {
+  replaceMarkdownViews: true,
+  excludedFolders: [],
+  editorFrontmatterKey: 'editor',
+  fileEditorModes: {},
+  saveDebounceMs: 2000,
+  attachmentFolder: '',
+  pastedImageName: 'pasted-{{timestamp}}',
+  placeholder: "Type '/' for commands or start writing...",
+  bulletListMarker: '-',
+  taskListMarker: '*',
+};
+
+const LIST_MARKERS: Record<ListMarker, string> = {
+  '-': 'Dash (-)',
+  '*': 'Asterisk (*)',
+  '+': 'Plus (+)',
+};
+
+export class WYSIWYGSettingTab extends PluginSettingTab {
+  plugin: WYSIWYGPlugin;
+
+  constructor(app: App, plugin: WYSIWYGPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    new Setting(containerEl)
+      .setName('Open markdown files in the WYSIWYG editor')
+      .setDesc('Replace the native editor for every markdown note. When off, notes open in the native editor.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.replaceMarkdownViews)
+        .onChange(async (value) => {
+          this.plugin.settings.replaceMarkdownViews = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Excluded folders')
+      .setDesc('Notes in these folders always open in the native editor. One path or glob per line, e.g. Templates or **/*.excalidraw.md.')
+      .addTextArea(text => text
+        .setPlaceholder('Templates\nDashboards/**')
+        .setValue(this.plugin.settings.excludedFolders.join('\n'))
+        .onChange(async (value) => {
+          this.plugin.settings.excludedFolders = value
+            .split('\n')
+            .map(line => line.trim())
+            .filter(Boolean);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Frontmatter key')
+      .setDesc(`Notes with this property set to "source", "native" or "markdown" open in the native editor, "wysiwyg" forces this editor.`)
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.editorFrontmatterKey)
+        .setValue(this.plugin.settings.editorFrontmatterKey)
+        .onChange(async (value) => {
+          this.plugin.settings.editorFrontmatterKey = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    const rememberedCount = Object.keys(this.plugin.settings.fileEditorModes).length;
+    new Setting(containerEl)
+      .setName('Per-note choices')
+      .setDesc(`${rememberedCount} ${rememberedCount === 1 ? 'note remembers' : 'notes remember'} the editor picked with the "Open in native editor" and "Open in WYSIWYG editor" commands.`)
+      .addButton(button => button
+        .setButtonText('Forget all')
+        .setDisabled(rememberedCount === 0)
+        .onClick(async () => {
+          this.plugin.settings.fileEditorModes = {};
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    new Setting(containerEl)
+      .setName('Save delay')
+      .setDesc('Milliseconds to wait after the last edit before writing the note to disk.')
+      .addText(text => text
+        .setPlaceholder(String(DEFAULT_SETTINGS.saveDebounceMs))
+        .setValue(String(this.plugin.settings.saveDebounceMs))
+        .onChange(async (value) => {
+          const ms = parseInt(value, 10);
+          if (isNaN(ms) || ms < 0) return;
+          this.plugin.settings.saveDebounceMs = ms;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Editor placeholder')
+      .setDesc('Text shown in an empty note.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.placeholder)
+        .setValue(this.plugin.settings.placeholder)
+        .onChange(async (value) => {
+          this.plugin.settings.placeholder = value;
+          await this.plugin.saveSettings();
+        }));
+
+    containerEl.createEl('h3', { text: 'Pasted images' });
+
+    new Setting(containerEl)
+      .setName('Attachment folder')
+      .setDesc('Vault folder pasted images are saved to, created if it does not exist. Leave empty to use the "Default location for new attachments" from Files and links.')
+      .addText(text => text
+        .setPlaceholder('Use Obsidian setting')
+        .setValue(this.plugin.settings.attachmentFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.attachmentFolder = value.trim().replace(/\/+$/, '');
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Image file name')
+      .setDesc('Name for pasted images, without extension. {{timestamp}} and {{note}} are replaced with the paste time and the current note name.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.pastedImageName)
+        .setValue(this.plugin.settings.pastedImageName)
+        .onChange(async (value) => {
+          this.plugin.settings.pastedImageName = value.trim() || DEFAULT_SETTINGS.pastedImageName;
+          await this.plugin.saveSettings();
+        }));
+
+    containerEl.createEl('h3', { text: 'Markdown output' });
+
+    new Setting(containerEl)
+      .setName('Bullet list marker')
+      .setDesc('Marker written for bullet list items.')
+      .addDropdown(dropdown => dropdown
+        .addOptions(LIST_MARKERS)
+        .setValue(this.plugin.settings.bulletListMarker)
+        .onChange(async (value) => {
+          this.plugin.settings.bulletListMarker = value as ListMarker;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Task list marker')
+      .setDesc('Marker written before the checkbox of task items.')
+      .addDropdown(dropdown => dropdown
+        .addOptions(LIST_MARKERS)
+        .setValue(this.plugin.settings.taskListMarker)
+        .onChange(async (value) => {
+          this.plugin.settings.taskListMarker = value as ListMarker;
+          await this.plugin.saveSettings();
+        }));
+  }
+}
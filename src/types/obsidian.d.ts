@@ -0,0 +1,16 @@
+import 'obsidian';
+
+// Internal Obsidian APIs the editor relies on, not part of the public typings
+declare module 'obsidian' {
+  interface App {
+    // Property type registry behind the Properties view
+    metadataTypeManager?: {
+      getAssignedType(key: string): string | null;
+    };
+  }
+
+  interface Vault {
+    // Settings from the Editor and Files and links tabs
+    getConfig(key: string): unknown;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Convert a vault path glob to a RegExp. `**` matches across folders,
+ * `*` and `?` stay within one path segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero folders
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether `path` or one of the folders containing it matches any of the globs.
+ */
+export function matchesFolderGlob(path: string, globs: string[]): boolean {
+  const patterns = globs
+    .map(glob => glob.trim().replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .map(globToRegExp);
+
+  if (patterns.length === 0) return false;
+
+  const segments = path.split('/');
+  for (let i = 1; i <= segments.length; i++) {
+    const candidate = segments.slice(0, i).join('/');
+    if (patterns.some(pattern => pattern.test(candidate))) {
+      return true;
+    }
+  }
+
+  return false;
+}